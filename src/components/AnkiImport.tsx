@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/contexts/I18nContext';
+import { useVoiceSettings } from '@/contexts/VoiceSettingsContext';
+import { AnkiImportReport, importAnkiPackage } from '@/lib/ankiImport';
+import type { SupportedLanguage } from '@/lib/speech';
+
+interface AnkiImportProps {
+  onImportComplete: () => void;
+}
+
+const LANGUAGES: SupportedLanguage[] = ['en', 'es', 'fr'];
+
+// Imports an Anki .apkg file into new decks and reports what could not be imported
+const AnkiImport: React.FC<AnkiImportProps> = ({ onImportComplete }) => {
+  const { t } = useI18n();
+  const { practiceLanguage } = useVoiceSettings();
+  const [includeScheduling, setIncludeScheduling] = useState(true);
+  const [sourceLanguage, setSourceLanguage] = useState<SupportedLanguage>(practiceLanguage);
+  const [targetLanguage, setTargetLanguage] = useState<SupportedLanguage>('en');
+  const [isImporting, setIsImporting] = useState(false);
+  const [report, setReport] = useState<AnkiImportReport | null>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setIsImporting(true);
+    setReport(null);
+    try {
+      const result = await importAnkiPackage(file, { includeScheduling, sourceLanguage, targetLanguage });
+      setReport(result);
+      onImportComplete();
+      toast.success(t('anki.success', { notes: result.importedNotes, cards: result.importedCards }));
+    } catch (error) {
+      console.error('Anki import failed:', error);
+      const reason = error instanceof Error && ['not-an-apkg', 'unsupported-format'].includes(error.message)
+        ? error.message
+        : 'failed';
+      toast.error(t(`anki.error.${reason}`));
+    } finally {
+      setIsImporting(false);
+      event.target.value = '';
+    }
+  };
+
+  const renderLanguageSelect = (
+    labelKey: string,
+    value: SupportedLanguage,
+    onChange: (language: SupportedLanguage) => void
+  ) => (
+    <div className="space-y-2">
+      <Label className="dark:text-white">{t(labelKey)}</Label>
+      <Select value={value} onValueChange={(language: SupportedLanguage) => onChange(language)} disabled={isImporting}>
+        <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {LANGUAGES.map(language => (
+            <SelectItem key={language} value={language}>{t(`language.${language}`)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid md:grid-cols-2 gap-4">
+        {renderLanguageSelect('deck.source.language', sourceLanguage, setSourceLanguage)}
+        {renderLanguageSelect('deck.target.language', targetLanguage, setTargetLanguage)}
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="anki-scheduling" className="dark:text-white">{t('anki.scheduling')}</Label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('anki.scheduling.description')}</p>
+        </div>
+        <Switch
+          id="anki-scheduling"
+          checked={includeScheduling}
+          onCheckedChange={setIncludeScheduling}
+          disabled={isImporting}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="file"
+          accept=".apkg"
+          onChange={handleImport}
+          disabled={isImporting}
+          className="flex-1 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+        <Upload className="text-gray-400" size={16} />
+      </div>
+      {isImporting && (
+        <p className="text-sm text-blue-600 dark:text-blue-400">{t('settings.import.loading')}</p>
+      )}
+      {report && (
+        <div className="rounded-md border p-3 text-sm space-y-1 dark:border-gray-600 dark:text-gray-300">
+          <p>{t('anki.report.imported', { notes: report.importedNotes, cards: report.importedCards })}</p>
+          {report.decks.length > 0 && <p>{t('anki.report.decks', { decks: report.decks.join(', ') })}</p>}
+          {report.duplicateNotes > 0 && <p>{t('anki.report.duplicates', { count: report.duplicateNotes })}</p>}
+          {report.skippedNotes > 0 && (
+            <p className="text-amber-600 dark:text-amber-400">{t('anki.report.skipped.notes', { count: report.skippedNotes })}</p>
+          )}
+          {report.skippedCards > 0 && (
+            <p className="text-amber-600 dark:text-amber-400">{t('anki.report.skipped.cards', { count: report.skippedCards })}</p>
+          )}
+          {report.unsupportedNoteTypes.length > 0 && (
+            <p className="text-amber-600 dark:text-amber-400">
+              {t('anki.report.unsupported', { types: report.unsupportedNoteTypes.join(', ') })}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnkiImport;
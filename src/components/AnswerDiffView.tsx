@@ -0,0 +1,53 @@
+import React from 'react';
+import { useI18n } from '@/contexts/I18nContext';
+import { AnswerDiff, DiffOp } from '@/lib/answerDiff';
+
+interface AnswerDiffViewProps {
+  diff: AnswerDiff;
+}
+
+// Kinds of mistakes shown in the legend, with the colour used for them
+const LEGEND: { op: DiffOp; labelKey: string; className: string }[] = [
+  { op: 'accent', labelKey: 'review.type.legend.accent', className: 'bg-amber-200 dark:bg-amber-700' },
+  { op: 'transpose', labelKey: 'review.type.legend.swapped', className: 'bg-sky-200 dark:bg-sky-700' },
+  { op: 'substitute', labelKey: 'review.type.legend.wrong', className: 'bg-red-200 dark:bg-red-800' },
+  { op: 'missing', labelKey: 'review.type.legend.missing', className: 'border-b-2 border-dashed border-gray-400 text-gray-400' },
+  { op: 'extra', labelKey: 'review.type.legend.extra', className: 'line-through text-red-500 dark:text-red-400' },
+];
+
+const classNameOf = (op: DiffOp) => LEGEND.find(entry => entry.op === op)?.className || 'text-green-700 dark:text-green-400';
+
+// The typed answer corrected in place: wrong letters are replaced by the expected ones
+// and highlighted by kind of mistake, the typed letter is shown on hover
+const AnswerDiffView: React.FC<AnswerDiffViewProps> = ({ diff }) => {
+  const { t } = useI18n();
+  const mistakes = new Set(diff.parts.map(part => part.op));
+
+  return (
+    <div className="space-y-2">
+      <div className="text-2xl font-mono tracking-wide whitespace-pre-wrap break-words dark:text-white">
+        {diff.parts.map((part, index) => (
+          <span
+            key={index}
+            className={`rounded-sm ${classNameOf(part.op)}`}
+            title={part.op === 'equal' || part.op === 'missing' ? undefined : part.typed}
+          >
+            {part.op === 'extra' ? part.typed : part.expected}
+          </span>
+        ))}
+      </div>
+      {!diff.isExact && (
+        <div className="flex flex-wrap justify-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+          {LEGEND.filter(entry => mistakes.has(entry.op)).map(entry => (
+            <span key={entry.op} className="inline-flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${entry.className}`} />
+              {t(entry.labelKey)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerDiffView;
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Mic, Play, Square, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/contexts/I18nContext';
+import { AudioRecorder, MAX_RECORDING_SECONDS, recordingPlayer } from '@/lib/audioRecorder';
+import { getMedia } from '@/lib/database';
+
+interface AudioRecordingInputProps {
+  recording: string | Blob | null | undefined; // Id in the media store, or a recording not stored yet
+  onChange: (recording: Blob | null) => void; // Called with a new recording, or null when removed
+}
+
+// Records a pronunciation of the card, stopping by itself after MAX_RECORDING_SECONDS
+const AudioRecordingInput: React.FC<AudioRecordingInputProps> = ({ recording, onChange }) => {
+  const { t } = useI18n();
+  const recorderRef = useRef<AudioRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+
+  const handleStop = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    try {
+      onChange(await recorder.stop());
+    } catch (error) {
+      console.error('Failed to record audio:', error);
+      toast.error(t('recording.error.failed'));
+    }
+  };
+
+  // Counts the seconds while recording and stops at the limit; the ref keeps the latest
+  // handleStop without restarting the timer on every render
+  const stopRef = useRef(handleStop);
+  stopRef.current = handleStop;
+  useEffect(() => {
+    if (!isRecording) return;
+    setElapsedSeconds(0);
+    const timer = setInterval(() => setElapsedSeconds(seconds => seconds + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (isRecording && elapsedSeconds >= MAX_RECORDING_SECONDS) stopRef.current();
+  }, [isRecording, elapsedSeconds]);
+
+  // Leaving the form mid-recording turns the microphone off
+  useEffect(() => () => recorderRef.current?.cancel(), []);
+
+  const handleRecord = async () => {
+    const recorder = new AudioRecorder();
+    try {
+      await recorder.start();
+      recorderRef.current = recorder;
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      const reason = error instanceof Error && ['not-supported', 'not-allowed'].includes(error.message)
+        ? error.message
+        : 'failed';
+      toast.error(t(`recording.error.${reason}`));
+    }
+  };
+
+  const handlePlay = async () => {
+    try {
+      const blob = typeof recording === 'string' ? await getMedia(recording) : recording;
+      if (blob) await recordingPlayer.play(blob);
+    } catch (error) {
+      console.error('Failed to play recording:', error);
+      toast.error(t('recording.error.play'));
+    }
+  };
+
+  if (!AudioRecorder.isSupported() && !recording) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">{t('recording.error.not-supported')}</p>;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {isRecording ? (
+        <Button type="button" variant="destructive" size="sm" onClick={handleStop}>
+          <Square className="mr-2" size={14} />
+          {t('recording.stop', { seconds: MAX_RECORDING_SECONDS - elapsedSeconds })}
+        </Button>
+      ) : (
+        <Button type="button" variant="outline" size="sm" onClick={handleRecord} disabled={!AudioRecorder.isSupported()}>
+          <Mic className="mr-2" size={14} />
+          {recording ? t('recording.again') : t('recording.start')}
+        </Button>
+      )}
+      {recording && !isRecording && (
+        <>
+          <Button type="button" variant="outline" size="sm" onClick={handlePlay}>
+            <Play className="mr-2" size={14} />
+            {t('recording.play')}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} title={t('recording.remove')}>
+            <X size={14} />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AudioRecordingInput;
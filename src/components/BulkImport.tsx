@@ -6,13 +6,76 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Plus, FileText, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
 import { toast } from 'sonner';
-import { addCard } from '@/lib/database';
+import { addCard, cleanNoteDetails, NoteDetails, parseTags } from '@/lib/database';
+import { isClozeText } from '@/lib/cloze';
 
 interface BulkImportProps {
   onImportComplete: () => void;
+  deckId?: string; // Deck the cards are added to, the default deck when omitted
 }
 
-const BulkImport: React.FC<BulkImportProps> = ({ onImportComplete }) => {
+// Columns after the tags hold details as name=value, e.g. "pos=verb" or "example=Je mange."
+const DETAIL_COLUMNS: Record<string, keyof NoteDetails> = {
+  example: 'example',
+  translation: 'exampleTranslation',
+  notes: 'notes',
+  pos: 'partOfSpeech',
+  gender: 'gender',
+  plural: 'plural',
+};
+
+const GENDER_ABBREVIATIONS: Record<string, string> = { m: 'masculine', f: 'feminine' };
+
+// Supported formats: "front:back", "front - back", "front | back" and tab separated
+const SEPARATORS = [':', ' - ', ' | ', '\t'];
+
+// The separator that comes first in the line, so a colon or dash inside a later column,
+// e.g. in an example sentence, doesn't split the line
+function getSeparator(line: string): string | null {
+  let separator: string | null = null;
+  let firstIndex = Infinity;
+  for (const candidate of SEPARATORS) {
+    const index = line.indexOf(candidate);
+    if (index >= 0 && index < firstIndex) {
+      separator = candidate;
+      firstIndex = index;
+    }
+  }
+  return separator;
+}
+
+// Columns of a line; cloze markers are left whole, as "{{c1::" holds a colon.
+// A line without a separator is a single column, which is enough for a cloze sentence.
+function splitColumns(line: string): string[] {
+  const masked = line.replace(/\{\{.*?\}\}/g, marker => '_'.repeat(marker.length));
+  const separator = getSeparator(masked);
+  if (!separator) return [line.trim()];
+
+  const columns: string[] = [];
+  let start = 0;
+  for (const maskedColumn of masked.split(separator)) {
+    columns.push(line.slice(start, start + maskedColumn.length).trim());
+    start += maskedColumn.length + separator.length;
+  }
+  return columns;
+}
+
+// Returns null when a column is not a known detail or has a value that isn't allowed
+function parseDetailColumns(columns: string[]): NoteDetails | null {
+  const details: Partial<Record<keyof NoteDetails, string>> = {};
+  for (const column of columns.filter(Boolean)) {
+    const separatorIndex = column.indexOf('=');
+    const field = DETAIL_COLUMNS[column.slice(0, separatorIndex).trim().toLowerCase()];
+    if (separatorIndex < 0 || !field) return null;
+    const value = column.slice(separatorIndex + 1).trim();
+    details[field] = field === 'gender' ? GENDER_ABBREVIATIONS[value.toLowerCase()] || value.toLowerCase() : value;
+  }
+  const cleaned = cleanNoteDetails(details);
+  const fields = Object.keys(details) as (keyof NoteDetails)[];
+  return fields.every(field => !details[field] || cleaned[field]) ? cleaned : null;
+}
+
+const BulkImport: React.FC<BulkImportProps> = ({ onImportComplete, deckId }) => {
   const [text, setText] = useState('');
   const [isImporting, setIsImporting] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
@@ -29,24 +92,17 @@ const BulkImport: React.FC<BulkImportProps> = ({ onImportComplete }) => {
 
       for (const line of lines) {
         try {
-          // Support multiple formats: "french:english", "french - english", "french | english"
-          const separators = [':', ' - ', ' | ', '\t'];
-          let french = '';
-          let english = '';
-
-          for (const separator of separators) {
-            if (line.includes(separator)) {
-              const parts = line.split(separator).map(part => part.trim());
-              if (parts.length >= 2) {
-                french = parts[0];
-                english = parts[1];
-                break;
-              }
-            }
-          }
+          // An optional third column holds tags: "front : back : food travel", and the columns
+          // after it details: "front : back : food : pos=verb : example=..."
+          const parts = splitColumns(line);
+          const front = parts[0];
+          const back = parts[1] || '';
+          const tags = parseTags(parts[2] || '');
+          const details = parseDetailColumns(parts.slice(3));
 
-          if (french && english) {
-            await addCard(french, english);
+          // Cloze sentences need no back
+          if (front && (back || isClozeText(front)) && details) {
+            await addCard(front, back, deckId, tags, details);
             successCount++;
           } else {
             errorCount++;
@@ -114,7 +170,9 @@ const BulkImport: React.FC<BulkImportProps> = ({ onImportComplete }) => {
 au revoir : goodbye
 merci : thank you
 s'il vous plaît : please
-excusez-moi : excuse me`;
+excusez-moi : excuse me
+manger : to eat : food verbs
+cheval | horse | animals | pos=noun | gender=m | plural=chevaux`;
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
@@ -142,11 +200,22 @@ excusez-moi : excuse me`;
                 Enter one card per line using any of these formats:
               </p>
               <ul className="text-sm text-gray-600 space-y-1">
-                <li>• <code>french : english</code></li>
-                <li>• <code>french - english</code></li>
-                <li>• <code>french | english</code></li>
-                <li>• <code>french [tab] english</code></li>
+                <li>• <code>word : translation</code></li>
+                <li>• <code>word - translation</code></li>
+                <li>• <code>word | translation</code></li>
+                <li>• <code>word [tab] translation</code></li>
               </ul>
+              <p className="text-sm text-gray-600">
+                Add an optional third column with tags, e.g. <code>manger : to eat : food verbs</code>
+              </p>
+              <p className="text-sm text-gray-600">
+                Further columns add details as <code>name=value</code>: <code>example</code>, <code>translation</code> (of the
+                example), <code>notes</code>, <code>pos</code> (part of speech), <code>gender</code> (m or f) and <code>plural</code>,
+                e.g. <code>cheval | horse | animals | pos=noun | gender=m</code>
+              </p>
+              <p className="text-sm text-gray-600">
+                Cloze sentences need no translation, e.g. <code>{'Je bois {{c1::du café}}'}</code>
+              </p>
             </CardContent>
           </Card>
 
@@ -164,7 +233,7 @@ excusez-moi : excuse me`;
             </p>
           </div>
 
-          {text.split('\n').some(line => line.trim() && !line.includes(':') && !line.includes(' - ') && !line.includes(' | ') && !line.includes('\t')) && (
+          {text.split('\n').some(line => line.trim() && splitColumns(line).length < 2 && !isClozeText(line)) && (
             <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
               <AlertCircle className="text-yellow-600" size={16} />
               <p className="text-sm text-yellow-800">
@@ -0,0 +1,15 @@
+import React from 'react';
+import { useMediaUrl } from '@/hooks/useMediaUrl';
+
+interface CardImageProps {
+  image: string | Blob | null | undefined; // Id in the media store, or an image not stored yet
+  className?: string;
+}
+
+const CardImage: React.FC<CardImageProps> = ({ image, className = 'max-h-48' }) => {
+  const url = useMediaUrl(image);
+  if (!url) return null;
+  return <img src={url} alt="" className={`rounded-md object-contain ${className}`} />;
+};
+
+export default CardImage;
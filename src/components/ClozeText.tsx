@@ -0,0 +1,32 @@
+import React from 'react';
+import { parseCloze } from '@/lib/cloze';
+
+interface ClozeTextProps {
+  text: string;
+  clozeNumber: number;
+  revealed: boolean;
+}
+
+// A cloze sentence with the words of one cloze blanked out, or highlighted once revealed.
+// Words of the sentence's other clozes are shown as plain text.
+const ClozeText: React.FC<ClozeTextProps> = ({ text, clozeNumber, revealed }) => (
+  <span className="whitespace-pre-wrap break-words">
+    {parseCloze(text, clozeNumber).map((part, index) => {
+      if (part.kind !== 'cloze') return <span key={index}>{part.text}</span>;
+      return revealed ? (
+        <span key={index} className="rounded-sm px-1 bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300">
+          {part.text}
+        </span>
+      ) : (
+        <span
+          key={index}
+          className="inline-block min-w-[3em] px-1 border-b-2 border-dashed border-blue-500 text-blue-500 dark:text-blue-400"
+        >
+          {part.hint ? `[${part.hint}]` : '[…]'}
+        </span>
+      );
+    })}
+  </span>
+);
+
+export default ClozeText;
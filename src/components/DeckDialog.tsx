@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check } from 'lucide-react';
+import { useI18n } from '@/contexts/I18nContext';
+import { Deck, DECK_COLORS, DIRECTION_OPTIONS, getDirectionsFromValue, getDirectionsValue } from '@/lib/database';
+
+export type DeckDraft = Omit<Deck, 'id' | 'createdAt'>;
+
+interface DeckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deck?: Deck | null; // Deck being edited; a new deck is created when omitted
+  onSave: (draft: DeckDraft) => Promise<void>;
+}
+
+const LANGUAGE_OPTIONS = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Español' },
+  { value: 'fr', label: 'Français' },
+];
+
+const emptyDraft = (): DeckDraft => ({
+  name: '',
+  description: '',
+  sourceLanguage: 'fr',
+  targetLanguage: 'en',
+  color: DECK_COLORS[0],
+  directions: ['forward'],
+});
+
+const DeckDialog: React.FC<DeckDialogProps> = ({ open, onOpenChange, deck, onSave }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<DeckDraft>(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the deck being edited every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(deck ? {
+        name: deck.name,
+        description: deck.description,
+        sourceLanguage: deck.sourceLanguage,
+        targetLanguage: deck.targetLanguage,
+        color: deck.color,
+        directions: deck.directions,
+      } : emptyDraft());
+    }
+  }, [open, deck]);
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim(), description: draft.description.trim() });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderLanguageSelect = (field: 'sourceLanguage' | 'targetLanguage') => (
+    <div className="space-y-2">
+      <Label className="dark:text-white">{t(`deck.${field === 'sourceLanguage' ? 'source' : 'target'}.language`)}</Label>
+      <Select value={draft[field]} onValueChange={(value) => setDraft({ ...draft, [field]: value })}>
+        <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {LANGUAGE_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{deck ? t('deck.edit.title') : t('deck.create.title')}</DialogTitle>
+          <DialogDescription>{t('deck.dialog.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="deck-name" className="dark:text-white">{t('deck.name')}</Label>
+            <Input
+              id="deck-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder={t('deck.name.placeholder')}
+              className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deck-description" className="dark:text-white">{t('deck.description')}</Label>
+            <Textarea
+              id="deck-description"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder={t('deck.description.placeholder')}
+              rows={2}
+              className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            {renderLanguageSelect('sourceLanguage')}
+            {renderLanguageSelect('targetLanguage')}
+          </div>
+          <div className="space-y-2">
+            <Label className="dark:text-white">{t('deck.directions')}</Label>
+            <Select
+              value={getDirectionsValue(draft.directions)}
+              onValueChange={(value) => setDraft({ ...draft, directions: getDirectionsFromValue(value) })}
+            >
+              <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DIRECTION_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{t(`deck.directions.${option.value}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('deck.directions.description')}</p>
+          </div>
+          <div className="space-y-2">
+            <Label className="dark:text-white">{t('deck.color')}</Label>
+            <div className="flex flex-wrap gap-2">
+              {DECK_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, color })}
+                  className="w-8 h-8 rounded-full flex items-center justify-center text-white"
+                  style={{ backgroundColor: color }}
+                  aria-label={color}
+                  aria-pressed={draft.color === color}
+                >
+                  {draft.color === color && <Check size={16} />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button onClick={handleSave} disabled={!draft.name.trim() || isSaving} className="flex-1">
+              {t('manage.save')}
+            </Button>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              {t('manage.cancel')}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeckDialog;
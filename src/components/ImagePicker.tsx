@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ImagePlus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/contexts/I18nContext';
+import { downscaleImage, getImageFile } from '@/lib/media';
+import CardImage from '@/components/CardImage';
+
+interface ImagePickerProps {
+  image: string | Blob | null | undefined; // Id in the media store, or an image not stored yet
+  onChange: (image: Blob | null) => void; // Called with the downscaled image, or null when removed
+}
+
+// Picture of a card, chosen from a file, dropped or pasted into the box
+const ImagePicker: React.FC<ImagePickerProps> = ({ image, onChange }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleFile = async (file: File | null | undefined) => {
+    if (!file) return;
+    setIsProcessing(true);
+    try {
+      onChange(await downscaleImage(file));
+    } catch (error) {
+      console.error('Failed to process image:', error);
+      toast.error(t(error instanceof Error && error.message === 'not-an-image' ? 'image.error.type' : 'image.error.load'));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(getImageFile(e.dataTransfer) || e.dataTransfer.files[0]);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const file = getImageFile(e.clipboardData);
+    if (file) {
+      e.preventDefault();
+      handleFile(file);
+    }
+  };
+
+  return (
+    <div
+      tabIndex={0}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onPaste={handlePaste}
+      className={`flex items-center gap-4 rounded-md border-2 border-dashed p-3 focus:outline-none focus:border-blue-500 ${
+        isDragging ? 'border-blue-500 bg-blue-50 dark:bg-blue-950' : 'border-gray-300 dark:border-gray-600'
+      }`}
+    >
+      {image && <CardImage image={image} className="h-16 w-16" />}
+      <div className="flex-1 text-sm text-gray-500 dark:text-gray-400">
+        {isProcessing ? t('image.processing') : t('image.hint')}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isProcessing}>
+        <ImagePlus className="mr-2" size={14} />
+        {image ? t('image.replace') : t('image.choose')}
+      </Button>
+      {image && (
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} title={t('image.remove')}>
+          <X size={14} />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ImagePicker;
@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/contexts/I18nContext';
+import { DEFAULT_DECK_ID, DEFAULT_LEARNING_CONFIG, Flashcard, getLearningConfig, LearningConfig, updateLearningConfig } from '@/lib/database';
+import { formatInterval, getIntervalMinutes, getScheduler, getSchedulers, SchedulerConfigField } from '@/lib/scheduler';
+
+interface LearningConfigEditorProps {
+  onSaved?: () => void;
+}
+
+// Settings every scheduler shares, on top of the ones it declares in its configSchema
+const DAILY_LIMIT_FIELDS: SchedulerConfigField[] = [
+  { key: 'newCardsPerDay', type: 'number', labelKey: 'config.new.per.day', min: 0, step: 1 },
+  { key: 'maxReviewsPerDay', type: 'number', labelKey: 'config.reviews.per.day', min: 0, step: 1 },
+];
+
+const LEECH_FIELDS: SchedulerConfigField[] = [
+  { key: 'leechThreshold', type: 'number', labelKey: 'config.leech.threshold', descriptionKey: 'config.leech.threshold.description', min: 1, step: 1 },
+];
+
+// Monday first; values are Date.getDay() numbers
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+type ConfigDraft = Record<string, string>;
+type ConfigErrors = Record<string, { key: string; params?: Record<string, string | number> }>;
+
+const formatSteps = (steps: number[]) => steps.join(' ');
+
+// Steps may be separated by spaces or commas, e.g. "1 10 30" or "1, 10, 30"
+const parseSteps = (value: string) => value.split(/[\s,]+/).filter(Boolean).map(Number);
+
+const toDraft = (config: LearningConfig): ConfigDraft => {
+  const draft: ConfigDraft = {};
+  for (const [key, value] of Object.entries(config)) {
+    draft[key] = Array.isArray(value) ? formatSteps(value) : String(value);
+  }
+  return draft;
+};
+
+const getEditableFields = (algorithm: string) => [
+  ...getScheduler(algorithm).configSchema,
+  ...DAILY_LIMIT_FIELDS,
+  ...LEECH_FIELDS,
+];
+
+// Returns the parsed config, or the errors keyed by field when the draft is invalid
+const parseDraft = (
+  draft: ConfigDraft,
+  baseConfig: LearningConfig
+): { config?: LearningConfig; errors: ConfigErrors } => {
+  const config: LearningConfig = {
+    ...baseConfig,
+    algorithm: draft.algorithm,
+    dayRolloverHour: Number(draft.dayRolloverHour),
+    leechAction: draft.leechAction as LearningConfig['leechAction'],
+    loadBalancing: draft.loadBalancing === 'true',
+    easyDays: parseSteps(draft.easyDays ?? ''),
+  };
+  const errors: ConfigErrors = {};
+
+  for (const field of getEditableFields(draft.algorithm)) {
+    const raw = draft[field.key] ?? '';
+    if (field.type === 'steps') {
+      const steps = parseSteps(raw);
+      if (steps.length === 0) {
+        errors[field.key] = { key: 'config.error.steps.empty' };
+      } else if (steps.some(step => !Number.isFinite(step) || step <= 0)) {
+        errors[field.key] = { key: 'config.error.steps.positive' };
+      } else if (steps.some((step, index) => index > 0 && step <= steps[index - 1])) {
+        errors[field.key] = { key: 'config.error.steps.order' };
+      } else {
+        (config[field.key] as number[]) = steps;
+      }
+      continue;
+    }
+
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value) || (field.step === 1 && !Number.isInteger(value))) {
+      errors[field.key] = { key: field.step === 1 ? 'config.error.whole.number' : 'config.error.number' };
+    } else if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+      errors[field.key] = field.max !== undefined
+        ? { key: 'config.error.range', params: { min: field.min ?? 0, max: field.max } }
+        : { key: 'config.error.min', params: { min: field.min ?? 0 } };
+    } else {
+      (config[field.key] as number) = value;
+    }
+  }
+
+  if (!errors.easyInterval && !errors.graduatingInterval && config.easyInterval < config.graduatingInterval) {
+    errors.easyInterval = { key: 'config.error.easy.interval' };
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { config, errors };
+};
+
+// Intervals a brand new card goes through when the learner keeps answering the same way
+const simulateJourney = (config: LearningConfig, grade: 'good' | 'easy', answers: number): number[] => {
+  const scheduler = getScheduler(config.algorithm);
+  let now = new Date();
+  let card: Flashcard = {
+    id: 'journey-preview',
+    noteId: 'journey-preview',
+    direction: 'forward',
+    front: '',
+    back: '',
+    deckId: DEFAULT_DECK_ID,
+    tags: [],
+    nextReviewDate: now,
+    interval: 0,
+    ease: 2.5,
+    createdAt: now,
+    reviewCount: 0,
+    cardState: 'new',
+    currentLearningStep: 0,
+    lapses: 0,
+  };
+
+  const intervals: number[] = [];
+  for (let i = 0; i < answers; i++) {
+    card = scheduler.next(card, grade, config, now);
+    intervals.push(getIntervalMinutes(card));
+    now = new Date(card.nextReviewDate);
+  }
+  return intervals;
+};
+
+const LearningConfigEditor: React.FC<LearningConfigEditorProps> = ({ onSaved }) => {
+  const { t, language } = useI18n();
+  const [savedConfig, setSavedConfig] = useState<LearningConfig | null>(null);
+  const [draft, setDraft] = useState<ConfigDraft>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getLearningConfig()
+      .then(config => {
+        setSavedConfig(config);
+        setDraft(toDraft(config));
+      })
+      .catch(error => console.error('Failed to load learning config:', error));
+  }, []);
+
+  if (!savedConfig) {
+    return null;
+  }
+
+  const { config: parsedConfig, errors } = parseDraft(draft, savedConfig);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(toDraft(savedConfig));
+
+  const updateDraft = (key: string, value: string) => {
+    setDraft({ ...draft, [key]: value });
+  };
+
+  const handleSave = async () => {
+    if (!parsedConfig) return;
+    setIsSaving(true);
+    try {
+      await updateLearningConfig(parsedConfig);
+      setSavedConfig(parsedConfig);
+      setDraft(toDraft(parsedConfig));
+      onSaved?.();
+      toast.success(t('success.settings.saved'));
+    } catch (error) {
+      console.error('Failed to update learning config:', error);
+      toast.error(t('error.settings.save'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDraft(toDraft(DEFAULT_LEARNING_CONFIG));
+  };
+
+  const toggleEasyDay = (weekday: number) => {
+    const easyDays = parseSteps(draft.easyDays ?? '');
+    const updated = easyDays.includes(weekday)
+      ? easyDays.filter(day => day !== weekday)
+      : [...easyDays, weekday].sort((a, b) => a - b);
+    updateDraft('easyDays', formatSteps(updated));
+  };
+
+  // Short weekday name in the interface language; 2024-01-07 was a Sunday
+  const formatWeekday = (weekday: number) =>
+    new Intl.DateTimeFormat(language, { weekday: 'short' }).format(new Date(2024, 0, 7 + weekday));
+
+  const renderField = (field: SchedulerConfigField) => {
+    const error = errors[field.key];
+    return (
+      <div key={field.key} className="space-y-2">
+        <Label htmlFor={`config-${field.key}`} className="dark:text-white">{t(field.labelKey)}</Label>
+        <Input
+          id={`config-${field.key}`}
+          type={field.type === 'steps' ? 'text' : 'number'}
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          value={draft[field.key] ?? ''}
+          placeholder={field.type === 'steps' ? t('config.steps.placeholder') : undefined}
+          onChange={(e) => updateDraft(field.key, e.target.value)}
+          aria-invalid={!!error}
+          className={`dark:bg-gray-700 dark:border-gray-600 dark:text-white ${error ? 'border-red-500 dark:border-red-500' : ''}`}
+        />
+        {error ? (
+          <p className="text-xs text-red-600 dark:text-red-400">{t(error.key, error.params)}</p>
+        ) : field.descriptionKey && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t(field.descriptionKey)}</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderJourney = (config: LearningConfig) => {
+    const format = (minutes: number) => formatInterval(minutes, t);
+    const goodPath = simulateJourney(config, 'good', config.learningSteps.length + 3).map(format);
+    const easyPath = simulateJourney(config, 'easy', 1).map(format);
+
+    return (
+      <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+        <li>• {t('config.journey.again', { interval: format(config.learningSteps[0]) })}</li>
+        <li>• {t('config.journey.good', { path: goodPath.join(' → ') })}</li>
+        <li>• {t('config.journey.easy', { interval: easyPath[0] })}</li>
+        <li>• {t('config.journey.lapse', { interval: format(config.relearningSteps[0]) })}</li>
+      </ul>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="dark:text-white">{t('settings.study.algorithm')}</Label>
+          <Select value={draft.algorithm} onValueChange={(value) => updateDraft('algorithm', value)}>
+            <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getSchedulers().map((scheduler) => (
+                <SelectItem key={scheduler.id} value={scheduler.id}>{scheduler.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="dark:text-white">{t('settings.study.rollover')}</Label>
+          <Select value={draft.dayRolloverHour} onValueChange={(value) => updateDraft('dayRolloverHour', value)}>
+            <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <SelectItem key={hour} value={String(hour)}>
+                  {`${String(hour).padStart(2, '0')}:00`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {t('settings.study.algorithm.description')} {t('settings.study.rollover.description')}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {getScheduler(draft.algorithm).configSchema.map(renderField)}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {DAILY_LIMIT_FIELDS.map(renderField)}
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {t('settings.study.limits.description')}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {LEECH_FIELDS.map(renderField)}
+        <div className="space-y-2">
+          <Label className="dark:text-white">{t('config.leech.action')}</Label>
+          <Select value={draft.leechAction} onValueChange={(value) => updateDraft('leechAction', value)}>
+            <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="tag">{t('config.leech.action.tag')}</SelectItem>
+              <SelectItem value="suspend">{t('config.leech.action.suspend')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="config-loadBalancing" className="dark:text-white">{t('config.load.balancing')}</Label>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('config.load.balancing.description')}</p>
+          </div>
+          <Switch
+            id="config-loadBalancing"
+            checked={draft.loadBalancing === 'true'}
+            onCheckedChange={(checked) => updateDraft('loadBalancing', String(checked))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="dark:text-white">{t('config.easy.days')}</Label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map(weekday => {
+              const isEasyDay = parseSteps(draft.easyDays ?? '').includes(weekday);
+              return (
+                <Button
+                  key={weekday}
+                  type="button"
+                  size="sm"
+                  variant={isEasyDay ? 'default' : 'outline'}
+                  onClick={() => toggleEasyDay(weekday)}
+                  aria-pressed={isEasyDay}
+                >
+                  {formatWeekday(weekday)}
+                </Button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('config.easy.days.description')}</p>
+        </div>
+      </div>
+
+      {/* Live explanation of the schedule being edited */}
+      <div className="rounded-md border p-3 space-y-2 dark:border-gray-600">
+        <h4 className="text-sm font-medium dark:text-white">{t('config.journey.title')}</h4>
+        {parsedConfig ? renderJourney(parsedConfig) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('config.journey.invalid')}</p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={!parsedConfig || !isDirty || isSaving} className="flex-1">
+          <Save className="mr-2" size={16} />
+          {t('settings.study.save')}
+        </Button>
+        <Button variant="outline" onClick={handleReset} disabled={isSaving}>
+          <RotateCcw className="mr-2" size={16} />
+          {t('settings.study.reset')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LearningConfigEditor;
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useI18n } from '@/contexts/I18nContext';
+import { GENDERS, Gender, NoteDetails, PARTS_OF_SPEECH } from '@/lib/database';
+import type { SupportedLanguage } from '@/lib/speech';
+
+interface NoteDetailsFieldsProps {
+  details: NoteDetails;
+  onChange: (details: NoteDetails) => void;
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+}
+
+// Selects can't hold an empty value, so this one stands for "not set"
+const NONE = 'none';
+
+const inputClassName = 'dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+// Optional details of a word: an example sentence and its translation, part of speech,
+// gender, plural and free-form notes
+const NoteDetailsFields: React.FC<NoteDetailsFieldsProps> = ({ details, onChange, sourceLanguage, targetLanguage }) => {
+  const { t } = useI18n();
+  // The form can be shown twice at once, when adding a word while editing another
+  const id = React.useId();
+  const update = (changes: NoteDetails) => onChange({ ...details, ...changes });
+
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-example`} className="dark:text-white">{t('details.example')}</Label>
+        <Input
+          id={`${id}-example`}
+          value={details.example || ''}
+          onChange={(e) => update({ example: e.target.value })}
+          placeholder={t('details.example.placeholder', { language: t(`language.${sourceLanguage}`) })}
+          lang={sourceLanguage}
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-example-translation`} className="dark:text-white">{t('details.exampleTranslation')}</Label>
+        <Input
+          id={`${id}-example-translation`}
+          value={details.exampleTranslation || ''}
+          onChange={(e) => update({ exampleTranslation: e.target.value })}
+          placeholder={t('details.exampleTranslation.placeholder', { language: t(`language.${targetLanguage}`) })}
+          lang={targetLanguage}
+          className={inputClassName}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label className="dark:text-white">{t('details.partOfSpeech')}</Label>
+        <Select
+          value={details.partOfSpeech || NONE}
+          onValueChange={(value) => update({ partOfSpeech: value === NONE ? undefined : value })}
+        >
+          <SelectTrigger className={inputClassName}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>{t('details.none')}</SelectItem>
+            {PARTS_OF_SPEECH.map(partOfSpeech => (
+              <SelectItem key={partOfSpeech} value={partOfSpeech}>{t(`details.partOfSpeech.${partOfSpeech}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="dark:text-white">{t('details.gender')}</Label>
+          <Select
+            value={details.gender || NONE}
+            onValueChange={(value) => update({ gender: value === NONE ? undefined : value as Gender })}
+          >
+            <SelectTrigger className={inputClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>{t('details.none')}</SelectItem>
+              {GENDERS.map(gender => (
+                <SelectItem key={gender} value={gender}>{t(`details.gender.${gender}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-plural`} className="dark:text-white">{t('details.plural')}</Label>
+          <Input
+            id={`${id}-plural`}
+            value={details.plural || ''}
+            onChange={(e) => update({ plural: e.target.value })}
+            lang={sourceLanguage}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor={`${id}-notes`} className="dark:text-white">{t('details.notes')}</Label>
+        <Textarea
+          id={`${id}-notes`}
+          value={details.notes || ''}
+          onChange={(e) => update({ notes: e.target.value })}
+          placeholder={t('details.notes.placeholder')}
+          rows={2}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default NoteDetailsFields;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useI18n } from '@/contexts/I18nContext';
+import { NoteDetails } from '@/lib/database';
+
+interface NoteDetailsViewProps {
+  details: NoteDetails;
+  compact?: boolean; // One line with the grammar and example, e.g. for lists
+}
+
+// The details of a word shown with its answer; renders nothing for words without any
+const NoteDetailsView: React.FC<NoteDetailsViewProps> = ({ details, compact = false }) => {
+  const { t } = useI18n();
+  const grammar = [
+    details.partOfSpeech && t(`details.partOfSpeech.${details.partOfSpeech}`),
+    details.gender && t(`details.gender.${details.gender}`),
+    details.plural && t('details.plural.value', { plural: details.plural }),
+  ].filter(Boolean).join(' · ');
+
+  if (!grammar && !details.example && !details.notes) return null;
+
+  if (compact) {
+    return (
+      <div className="text-xs text-gray-500 dark:text-gray-400 md:col-span-2">
+        {grammar}
+        {grammar && details.example && ' — '}
+        {details.example && <span className="italic">{details.example}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-2 text-sm text-gray-600 dark:text-gray-400">
+      {grammar && <p>{grammar}</p>}
+      {details.example && (
+        <div>
+          <p className="italic text-gray-800 dark:text-gray-200">{details.example}</p>
+          {details.exampleTranslation && <p>{details.exampleTranslation}</p>}
+        </div>
+      )}
+      {details.notes && <p className="whitespace-pre-wrap">{details.notes}</p>}
+    </div>
+  );
+};
+
+export default NoteDetailsView;
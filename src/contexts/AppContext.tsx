@@ -23,7 +23,13 @@ export const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [stats, setStats] = useState<StudyStats>({
     totalCards: 0,
     reviewedToday: 0,
+    newCardsToday: 0,
+    againToday: 0,
+    timeSpentToday: 0,
+    newCardsRemaining: 0,
+    reviewsRemaining: 0,
     currentStreak: 0,
+    longestStreak: 0,
     dueToday: 0,
     masteryPercentage: 0,
   });
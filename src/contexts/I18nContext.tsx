@@ -6,7 +6,7 @@ export type Language = 'en' | 'es' | 'fr';
 interface I18nContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: string) => string;
+  t: (key: string, params?: Record<string, string | number>) => string;
 }
 
 const I18nContext = createContext<I18nContextType | undefined>(undefined);
@@ -40,6 +40,8 @@ const translations = {
     'home.stats.due': 'Due Today',
     'home.stats.reviewed': 'Reviewed Today',
     'home.stats.mastery': 'Mastery',
+    'home.stats.streak': 'Day Streak',
+    'home.stats.best': 'Best',
     'home.features.spaced.title': 'Spaced Repetition',
     'home.features.spaced.desc': 'Smart algorithm that shows cards when you need to review them most.',
     'home.features.tts.title': 'Text-to-Speech',
@@ -70,6 +72,8 @@ const translations = {
     'dashboard.stats.reviewed.desc': 'Cards studied today',
     'dashboard.stats.streak': 'Current Streak',
     'dashboard.stats.streak.desc': 'Days studied in a row',
+    'dashboard.stats.longest': 'Longest Streak',
+    'dashboard.stats.longest.desc': 'Your best run of study days',
     'dashboard.stats.mastery': 'Mastery Level',
     'dashboard.stats.mastery.desc': 'Cards marked as easy',
     'dashboard.goal.title': "Today's Goal",
@@ -77,6 +81,11 @@ const translations = {
     'dashboard.goal.no_cards': 'No cards due for review today',
     'dashboard.goal.progress': 'Progress',
     'dashboard.goal.remaining': 'cards remaining to review',
+    'dashboard.goal.new_learned': 'New learned',
+    'dashboard.goal.again': 'Again',
+    'dashboard.goal.time': 'Time spent',
+    'dashboard.goal.minutes': 'min',
+    'dashboard.goal.new_remaining': 'new cards left today',
     'dashboard.mastery.title': 'Mastery Progress',
     'dashboard.mastery.level': 'Mastery Level',
     'dashboard.mastery.of': 'of',
@@ -87,13 +96,19 @@ const translations = {
     'dashboard.actions.add': 'Add Cards',
     'dashboard.actions.stats': 'View Stats',
     'dashboard.actions.settings': 'Settings',
+    'dashboard.decks.title': 'Decks',
+    'dashboard.decks.subtitle': 'Study one deck at a time',
+    'dashboard.decks.new': '{count} new',
+    'dashboard.decks.due': '{count} due',
+    'dashboard.decks.study': 'Study',
 
     // Review page
     'review.title.due': 'Review Session',
     'review.title.all': 'Practice Session',
     'review.subtitle': 'Card',
     'review.subtitle.of': 'of',
-    'review.card.french': 'French Word',
+    'review.card.front': '{language} Word',
+    'review.cloze.title': 'Fill in the Blank',
     'review.card.translation': 'Translation',
     'review.listen': 'Listen',
     'review.show.answer': 'Show Answer',
@@ -109,15 +124,134 @@ const translations = {
     'review.check.again': 'Check Again',
     'review.all.cards': 'Review All Cards',
     'review.loading': 'Loading cards...',
+    'review.interval': 'Interval',
+    'review.lapses': 'Lapses',
+    'review.new.remaining': 'new cards left today',
+    'review.reviews.remaining': 'reviews left today',
+    'review.undo': 'Undo',
+    'review.undo.shortcut': 'Undo last answer (Ctrl+Z or U)',
+    'review.bury': 'Bury',
+    'review.bury.description': 'Hide this card until tomorrow',
+    'review.suspend': 'Suspend',
+    'review.suspend.description': 'Hide this card until you unsuspend it',
+    'review.leech.title': 'Leech detected',
+    'review.leech.tagged': '"{front}" has been forgotten {lapses} times and was tagged as a leech. Try rewriting it with a mnemonic or an example.',
+    'review.leech.suspended': '"{front}" has been forgotten {lapses} times and was suspended. Rewrite it in Manage, then unsuspend it.',
+    'review.mode.label': 'Answer mode',
+    'review.mode.flip': 'Flip',
+    'review.mode.flip.description': 'Show the answer and grade yourself',
+    'review.mode.type': 'Type',
+    'review.mode.type.description': 'Type each answer and have it checked letter by letter',
+    'review.mode.choice': 'Multiple choice',
+    'review.mode.choice.description': 'Pick the answer from a few options, graded for you',
+    'review.mode.dictation': 'Dictation',
+    'review.mode.dictation.description': 'Hear the word without seeing it and type what you heard',
+    'review.dictation.title': 'Listen ({language})',
+    'review.dictation.slow': 'Slowly',
+    'review.dictation.placeholder': 'Type what you heard in {language}',
+    'review.mode.speaking': 'Speaking',
+    'review.mode.speaking.description': 'Say the word out loud and have your pronunciation checked',
+    'review.speaking.title': 'Say it in {language}',
+    'review.speaking.start': 'Say it',
+    'review.speaking.listening': 'Listening… tap to stop',
+    'review.speaking.heard': 'Heard "{transcript}" · {score}% match',
+    'review.speaking.retry': 'Try again',
+    'review.speaking.error.not-supported': 'Speech recognition isn\'t available in this browser',
+    'review.speaking.error.not-allowed': 'Allow microphone access to practise speaking',
+    'review.speaking.error.no-speech': 'Nothing was heard, try again',
+    'review.speaking.error.failed': 'Speech recognition failed, try again',
+    'review.choice.correct': 'Correct!',
+    'review.choice.incorrect': 'Not quite, the answer is "{answer}".',
+    'review.choice.continue': 'Continue',
+    'review.choice.shortcut': 'Press 1 to {count} to choose and Enter to continue',
+    'review.type.placeholder': 'Type the answer in {language}',
+    'review.type.check': 'Check',
+    'review.type.correct': 'Correct!',
+    'review.type.suggested': 'Suggested grade: {grade}. Press Enter to accept it or pick another one.',
+    'review.type.answer': 'Answer',
+    'review.type.legend.accent': 'accent',
+    'review.type.legend.swapped': 'swapped',
+    'review.type.legend.wrong': 'wrong',
+    'review.type.legend.missing': 'missing',
+    'review.type.legend.extra': 'extra',
+    'interval.unit.minute': 'm',
+    'interval.unit.hour': 'h',
+    'interval.unit.day': 'd',
+    'interval.unit.month': 'mo',
+    'interval.unit.year': 'y',
 
     // Manage page  
     'manage.title': 'Manage Cards',
     'manage.subtitle': 'Add, edit, or delete your flashcards',
     'manage.add.title': 'Add New Card',
-    'manage.french.label': 'French Word/Phrase',
-    'manage.french.placeholder': 'Enter French word...',
-    'manage.english.label': 'English Translation',
-    'manage.english.placeholder': 'Enter English translation...',
+    'manage.front.label': '{language} Word/Phrase',
+    'manage.front.placeholder': 'Enter {language} word...',
+    'manage.back.label': '{language} Translation',
+    'manage.back.placeholder': 'Enter {language} translation...',
+    'manage.tags.label': 'Tags',
+    'manage.tags.placeholder': 'e.g. food travel',
+    'manage.tags.filter': 'Filter by tag:',
+    'manage.suspend': 'Suspend',
+    'manage.unsuspend': 'Unsuspend',
+    'manage.bury': 'Bury until tomorrow',
+    'manage.unbury': 'Unbury',
+    'manage.status.suspended': 'Suspended',
+    'manage.status.buried': 'Buried until tomorrow',
+    'manage.directions.deck': 'Same as deck ({directions})',
+    'manage.direction.off': 'not studied',
+    'manage.cloze.hint': 'Tip: mark words to hide in a sentence with {{c1::word}}, {{c2::other}}… to make one card per number.',
+    'manage.cloze.detected': 'Cloze sentence: one card per cloze number, the translation is optional.',
+    'manage.cloze.number': 'Cloze {number}',
+    'details.show': 'More details',
+    'details.hide': 'Fewer details',
+    'details.example': 'Example sentence',
+    'details.example.placeholder': 'Sentence using the word in {language}...',
+    'details.exampleTranslation': 'Example translation',
+    'details.exampleTranslation.placeholder': 'The sentence in {language}...',
+    'details.notes': 'Notes',
+    'details.notes.placeholder': 'Anything worth remembering, e.g. an irregular form or a false friend...',
+    'details.partOfSpeech': 'Part of speech',
+    'details.partOfSpeech.noun': 'Noun',
+    'details.partOfSpeech.verb': 'Verb',
+    'details.partOfSpeech.adjective': 'Adjective',
+    'details.partOfSpeech.adverb': 'Adverb',
+    'details.partOfSpeech.pronoun': 'Pronoun',
+    'details.partOfSpeech.preposition': 'Preposition',
+    'details.partOfSpeech.conjunction': 'Conjunction',
+    'details.partOfSpeech.interjection': 'Interjection',
+    'details.partOfSpeech.phrase': 'Phrase',
+    'details.gender': 'Gender',
+    'details.gender.masculine': 'Masculine',
+    'details.gender.feminine': 'Feminine',
+    'details.plural': 'Plural',
+    'details.plural.value': 'plural: {plural}',
+    'details.none': 'Not set',
+    'image.label': 'Image',
+    'image.hint': 'Drop an image here, or click this box and paste one',
+    'image.processing': 'Preparing image...',
+    'image.choose': 'Choose image',
+    'image.replace': 'Replace',
+    'image.remove': 'Remove image',
+    'image.error.type': 'That file is not an image',
+    'image.error.load': 'Failed to load the image',
+    'recording.label': 'Recorded pronunciation',
+    'recording.start': 'Record',
+    'recording.again': 'Record again',
+    'recording.stop': 'Stop ({seconds}s left)',
+    'recording.play': 'Play',
+    'recording.remove': 'Remove recording',
+    'recording.error.not-supported': 'Recording is not supported in this browser',
+    'recording.error.not-allowed': 'Microphone access was denied',
+    'recording.error.failed': 'Recording failed, please try again',
+    'recording.error.play': 'Failed to play the recording',
+    'manage.state.new': 'New',
+    'manage.state.learning': 'Learning',
+    'manage.state.relearning': 'Relearning',
+    'manage.state.review': 'Review',
+    'manage.unsuspend.all': 'Unsuspend all ({count})',
+    'manage.unbury.all': 'Unbury all ({count})',
+    'manage.leeches': 'Leeches ({count})',
+    'manage.leeches.description': 'Cards you keep forgetting; rewrite them with a mnemonic or an example',
     'manage.add.button': 'Add Card',
     'manage.search.placeholder': 'Search cards...',
     'manage.loading': 'Loading cards...',
@@ -125,6 +259,33 @@ const translations = {
     'manage.no.cards': 'No cards yet. Add your first card above!',
     'manage.save': 'Save',
     'manage.cancel': 'Cancel',
+    'deck.list.title': 'Decks',
+    'deck.create.button': 'New Deck',
+    'deck.all': 'All decks',
+    'deck.card.count': '{count} cards',
+    'deck.no.description': 'No description',
+    'deck.edit.button': 'Edit',
+    'deck.export.button': 'Export',
+    'deck.delete.button': 'Delete',
+    'deck.label': 'Deck',
+    'deck.create.title': 'Create Deck',
+    'deck.edit.title': 'Edit Deck',
+    'deck.dialog.description': 'Group cards by topic or language pair and study each deck on its own.',
+    'deck.name': 'Name',
+    'deck.name.placeholder': 'e.g. Travel phrases',
+    'deck.description': 'Description',
+    'deck.description.placeholder': 'What is this deck about?',
+    'deck.source.language': 'Language you are learning',
+    'deck.target.language': 'Translation language',
+    'deck.color': 'Colour',
+    'deck.directions': 'Card directions',
+    'deck.directions.forward': 'Word → translation',
+    'deck.directions.reverse': 'Translation → word',
+    'deck.directions.both': 'Both directions',
+    'deck.directions.description': 'Each direction has its own schedule. Both directions of a word are never shown on the same day.',
+    'language.en': 'English',
+    'language.es': 'Spanish',
+    'language.fr': 'French',
     
     // Settings page
     'settings.title': 'Settings',
@@ -133,6 +294,47 @@ const translations = {
     'settings.voice.subtitle': 'Customize text-to-speech settings',
     'settings.voice.loading': 'Loading voices...',
     'settings.voice.description': 'Choose the language you want to practice and then select a specific voice that sounds most natural to you.',
+    'settings.study.title': 'Study Schedule',
+    'settings.study.subtitle': 'Learning steps, scheduling algorithm and daily limits',
+    'settings.study.rollover': 'Next day starts at',
+    'settings.study.rollover.description': 'Reviews done before this hour count towards the previous day, so late-night sessions don\'t break your streak.',
+    'settings.study.algorithm': 'Scheduling algorithm',
+    'settings.study.algorithm.description': 'FSRS models how well you remember each card and usually needs fewer reviews for the same retention. Existing progress is kept when switching.',
+    'settings.study.retention': 'Desired retention',
+    'settings.study.retention.description': 'Chance of remembering a card when it comes up for review (0.70 to 0.99). Higher values mean more reviews.',
+    'config.learning.steps': 'Learning steps (minutes)',
+    'config.relearning.steps': 'Relearning steps (minutes)',
+    'config.graduating.interval': 'Graduating interval (days)',
+    'config.easy.interval': 'Easy interval (days)',
+    'config.new.per.day': 'New cards per day',
+    'config.reviews.per.day': 'Maximum reviews per day',
+    'config.leech.threshold': 'Leech threshold',
+    'config.leech.threshold.description': 'Lapses before a card is flagged as a leech, and again every half as many after that',
+    'config.leech.action': 'When a card becomes a leech',
+    'config.leech.action.tag': 'Tag it as a leech',
+    'config.leech.action.suspend': 'Tag and suspend it',
+    'config.load.balancing': 'Load balancing',
+    'config.load.balancing.description': 'Review intervals are always shifted by a few random days so cards learned together don\'t stay due together. With load balancing, the least busy days are preferred.',
+    'config.easy.days': 'Easy days',
+    'config.easy.days.description': 'Days of the week that get far fewer reviews, e.g. busy weekdays.',
+    'settings.study.limits.description': 'Cards still in learning are always shown. Remaining new cards and reviews wait for the next day.',
+    'settings.study.save': 'Save Learning Settings',
+    'settings.study.reset': 'Reset to Defaults',
+    'config.steps.placeholder': 'e.g. 1 10 30',
+    'config.error.steps.empty': 'Enter at least one step.',
+    'config.error.steps.positive': 'Steps must be positive numbers of minutes.',
+    'config.error.steps.order': 'Each step must be longer than the one before.',
+    'config.error.number': 'Enter a number.',
+    'config.error.whole.number': 'Enter a whole number.',
+    'config.error.range': 'Must be between {min} and {max}.',
+    'config.error.min': 'Must be at least {min}.',
+    'config.error.easy.interval': 'Easy interval can\'t be shorter than the graduating interval.',
+    'config.journey.title': 'A new card\'s journey',
+    'config.journey.again': 'Again: shown again after {interval}',
+    'config.journey.good': 'Good every time: {path}',
+    'config.journey.easy': 'Easy on first sight: next review in {interval}',
+    'config.journey.lapse': 'Forgetting a review card: relearn after {interval}',
+    'config.journey.invalid': 'Fix the highlighted fields to see how cards will be scheduled.',
     'settings.language.title': 'Language & Appearance',
     'settings.language.subtitle': 'Choose your preferred language and theme',
     'settings.practice.language': 'Practice Language',
@@ -153,6 +355,20 @@ const translations = {
     'settings.import': 'Import Data',
     'settings.import.description': 'Upload a JSON file to import flashcards (will merge with existing cards)',
     'settings.import.loading': 'Importing...',
+    'anki.title': 'Import from Anki',
+    'anki.description': 'Upload an Anki deck package (.apkg). Basic and cloze notes become cards in new decks, with their images and audio',
+    'anki.scheduling': 'Keep scheduling history',
+    'anki.scheduling.description': 'Import due dates, intervals and past reviews instead of starting every card as new',
+    'anki.success': 'Imported {notes} notes ({cards} cards) from Anki',
+    'anki.report.imported': 'Imported {notes} notes and {cards} cards',
+    'anki.report.decks': 'Decks: {decks}',
+    'anki.report.duplicates': '{count} notes were already imported and were skipped',
+    'anki.report.skipped.notes': '{count} notes could not be imported',
+    'anki.report.skipped.cards': '{count} cards use templates that are not supported and were skipped',
+    'anki.report.unsupported': 'Unsupported note types: {types}',
+    'anki.error.not-an-apkg': 'This file is not an Anki deck package',
+    'anki.error.unsupported-format': 'This package uses a newer Anki format. Export it again with "Support older Anki versions" checked',
+    'anki.error.failed': 'Failed to import the Anki package',
     'settings.about': 'About',
     'settings.about.description': 'A progressive web app for language learning with spaced repetition, offline storage, enhanced text-to-speech capabilities, dark mode, and multi-language support.',
     'settings.about.features': 'Features',
@@ -181,20 +397,34 @@ const translations = {
     'confirm.delete.card.title': 'Delete Card',
     'confirm.delete.card.description': 'Are you sure you want to delete this card? This action cannot be undone.',
     'confirm.delete.card.confirm': 'Delete',
+    'confirm.delete.deck.title': 'Delete Deck',
+    'confirm.delete.deck.description': 'Are you sure you want to delete "{name}"? Its {count} cards and their review history will be permanently removed.',
     'confirm.cancel': 'Cancel',
     'confirm.continue': 'Continue',
     
     // Success messages
     'success.import': 'Import successful!',
     'success.export': 'Export completed successfully!',
+    'success.deck.created': 'Deck created!',
+    'success.deck.updated': 'Deck updated!',
+    'success.deck.deleted': 'Deck deleted!',
     'success.delete.all': 'All data has been cleared.',
     'success.card.added': 'Card added successfully!',
     'success.card.updated': 'Card updated successfully!',
     'success.card.deleted': 'Card deleted successfully!',
+    'success.card.suspended': 'Card suspended',
+    'success.card.unsuspended': 'Card unsuspended',
+    'success.card.buried': 'Card buried until tomorrow',
+    'success.card.unburied': 'Card unburied',
+    'success.cards.unsuspended': '{count} cards unsuspended',
+    'success.cards.unburied': '{count} cards unburied',
+    'success.settings.saved': 'Learning settings saved!',
     
     // Error messages
     'error.import': 'Import failed. Please check the file format and try again.',
     'error.export': 'Export failed. Please try again.',
+    'error.deck.save': 'Failed to save deck. Please try again.',
+    'error.deck.delete': 'Failed to delete deck. Please try again.',
     'error.delete.all': 'Failed to clear data. Please try again.',
     'error.card.add': 'Failed to add card. Please try again.',
     'error.card.update': 'Failed to update card. Please try again.',
@@ -202,6 +432,7 @@ const translations = {
     'error.load.cards': 'Failed to load cards. Please try again.',
     'error.voice.change': 'Failed to change voice. Please try again.',
     'error.voice.test': 'Failed to test voice. Please try again.',
+    'error.settings.save': 'Failed to save settings. Please try again.',
   },
   es: {
     // Navigation
@@ -222,6 +453,8 @@ const translations = {
     'home.stats.due': 'Pendientes Hoy',
     'home.stats.reviewed': 'Repasadas Hoy',
     'home.stats.mastery': 'Dominio',
+    'home.stats.streak': 'Días Seguidos',
+    'home.stats.best': 'Mejor',
     'home.features.spaced.title': 'Repetición Espaciada',
     'home.features.spaced.desc': 'Algoritmo inteligente que muestra las tarjetas cuando más necesitas repasarlas.',
     'home.features.tts.title': 'Texto a Voz',
@@ -252,6 +485,8 @@ const translations = {
     'dashboard.stats.reviewed.desc': 'Tarjetas estudiadas hoy',
     'dashboard.stats.streak': 'Racha Actual',
     'dashboard.stats.streak.desc': 'Días estudiados seguidos',
+    'dashboard.stats.longest': 'Racha Más Larga',
+    'dashboard.stats.longest.desc': 'Tu mejor racha de días de estudio',
     'dashboard.stats.mastery': 'Nivel de Dominio',
     'dashboard.stats.mastery.desc': 'Tarjetas marcadas como fáciles',
     'dashboard.goal.title': 'Meta de Hoy',
@@ -259,6 +494,11 @@ const translations = {
     'dashboard.goal.no_cards': 'No hay tarjetas pendientes para repasar hoy',
     'dashboard.goal.progress': 'Progreso',
     'dashboard.goal.remaining': 'tarjetas restantes para repasar',
+    'dashboard.goal.new_learned': 'Nuevas aprendidas',
+    'dashboard.goal.again': 'Otra vez',
+    'dashboard.goal.time': 'Tiempo dedicado',
+    'dashboard.goal.minutes': 'min',
+    'dashboard.goal.new_remaining': 'tarjetas nuevas restantes hoy',
     'dashboard.mastery.title': 'Progreso de Dominio',
     'dashboard.mastery.level': 'Nivel de Dominio',
     'dashboard.mastery.of': 'de',
@@ -269,13 +509,19 @@ const translations = {
     'dashboard.actions.add': 'Añadir Tarjetas',
     'dashboard.actions.stats': 'Ver Estadísticas',
     'dashboard.actions.settings': 'Configuración',
+    'dashboard.decks.title': 'Mazos',
+    'dashboard.decks.subtitle': 'Estudia un mazo a la vez',
+    'dashboard.decks.new': '{count} nuevas',
+    'dashboard.decks.due': '{count} pendientes',
+    'dashboard.decks.study': 'Estudiar',
 
     // Review page
     'review.title.due': 'Sesión de Repaso',
     'review.title.all': 'Sesión de Práctica',
     'review.subtitle': 'Tarjeta',
     'review.subtitle.of': 'de',
-    'review.card.french': 'Palabra en Francés',
+    'review.card.front': 'Palabra en {language}',
+    'review.cloze.title': 'Completa el hueco',
     'review.card.translation': 'Traducción',
     'review.listen': 'Escuchar',
     'review.show.answer': 'Mostrar Respuesta',
@@ -291,15 +537,134 @@ const translations = {
     'review.check.again': 'Verificar Otra Vez',
     'review.all.cards': 'Repasar Todas las Tarjetas',
     'review.loading': 'Cargando tarjetas...',
+    'review.interval': 'Intervalo',
+    'review.lapses': 'Olvidos',
+    'review.new.remaining': 'tarjetas nuevas restantes hoy',
+    'review.reviews.remaining': 'repasos restantes hoy',
+    'review.undo': 'Deshacer',
+    'review.undo.shortcut': 'Deshacer la última respuesta (Ctrl+Z o U)',
+    'review.bury': 'Enterrar',
+    'review.bury.description': 'Ocultar esta tarjeta hasta mañana',
+    'review.suspend': 'Suspender',
+    'review.suspend.description': 'Ocultar esta tarjeta hasta que la reactives',
+    'review.leech.title': 'Sanguijuela detectada',
+    'review.leech.tagged': '"{front}" se ha olvidado {lapses} veces y se etiquetó como sanguijuela. Prueba a reescribirla con una regla mnemotécnica o un ejemplo.',
+    'review.leech.suspended': '"{front}" se ha olvidado {lapses} veces y se suspendió. Reescríbela en Gestionar y luego reactívala.',
+    'review.mode.label': 'Modo de respuesta',
+    'review.mode.flip': 'Voltear',
+    'review.mode.flip.description': 'Muestra la respuesta y califícate tú mismo',
+    'review.mode.type': 'Escribir',
+    'review.mode.type.description': 'Escribe cada respuesta y compruébala letra por letra',
+    'review.mode.choice': 'Opción múltiple',
+    'review.mode.choice.description': 'Elige la respuesta entre varias opciones, se califica sola',
+    'review.mode.dictation': 'Dictado',
+    'review.mode.dictation.description': 'Escucha la palabra sin verla y escribe lo que oíste',
+    'review.dictation.title': 'Escucha ({language})',
+    'review.dictation.slow': 'Despacio',
+    'review.dictation.placeholder': 'Escribe lo que oíste en {language}',
+    'review.mode.speaking': 'Hablar',
+    'review.mode.speaking.description': 'Di la palabra en voz alta y comprueba tu pronunciación',
+    'review.speaking.title': 'Dilo en {language}',
+    'review.speaking.start': 'Decirlo',
+    'review.speaking.listening': 'Escuchando… toca para parar',
+    'review.speaking.heard': 'Se oyó "{transcript}" · {score}% de coincidencia',
+    'review.speaking.retry': 'Intentar de nuevo',
+    'review.speaking.error.not-supported': 'El reconocimiento de voz no está disponible en este navegador',
+    'review.speaking.error.not-allowed': 'Permite el acceso al micrófono para practicar la pronunciación',
+    'review.speaking.error.no-speech': 'No se oyó nada, inténtalo de nuevo',
+    'review.speaking.error.failed': 'El reconocimiento de voz falló, inténtalo de nuevo',
+    'review.choice.correct': '¡Correcto!',
+    'review.choice.incorrect': 'No exactamente, la respuesta es "{answer}".',
+    'review.choice.continue': 'Continuar',
+    'review.choice.shortcut': 'Pulsa de 1 a {count} para elegir y Enter para continuar',
+    'review.type.placeholder': 'Escribe la respuesta en {language}',
+    'review.type.check': 'Comprobar',
+    'review.type.correct': '¡Correcto!',
+    'review.type.suggested': 'Calificación sugerida: {grade}. Pulsa Enter para aceptarla o elige otra.',
+    'review.type.answer': 'Respuesta',
+    'review.type.legend.accent': 'acento',
+    'review.type.legend.swapped': 'invertidas',
+    'review.type.legend.wrong': 'incorrecta',
+    'review.type.legend.missing': 'falta',
+    'review.type.legend.extra': 'sobra',
+    'interval.unit.minute': 'min',
+    'interval.unit.hour': 'h',
+    'interval.unit.day': 'd',
+    'interval.unit.month': 'm',
+    'interval.unit.year': 'a',
 
     // Manage page  
     'manage.title': 'Gestionar Tarjetas',
     'manage.subtitle': 'Añadir, editar o eliminar tus tarjetas',
     'manage.add.title': 'Añadir Nueva Tarjeta',
-    'manage.french.label': 'Palabra/Frase en Francés',
-    'manage.french.placeholder': 'Ingresa palabra en francés...',
-    'manage.english.label': 'Traducción al Español',
-    'manage.english.placeholder': 'Ingresa traducción al español...',
+    'manage.front.label': 'Palabra/Frase en {language}',
+    'manage.front.placeholder': 'Ingresa palabra en {language}...',
+    'manage.back.label': 'Traducción al {language}',
+    'manage.back.placeholder': 'Ingresa traducción al {language}...',
+    'manage.tags.label': 'Etiquetas',
+    'manage.tags.placeholder': 'p. ej. comida viajes',
+    'manage.tags.filter': 'Filtrar por etiqueta:',
+    'manage.suspend': 'Suspender',
+    'manage.unsuspend': 'Reactivar',
+    'manage.bury': 'Enterrar hasta mañana',
+    'manage.unbury': 'Desenterrar',
+    'manage.status.suspended': 'Suspendida',
+    'manage.status.buried': 'Enterrada hasta mañana',
+    'manage.directions.deck': 'Como el mazo ({directions})',
+    'manage.direction.off': 'no se estudia',
+    'manage.cloze.hint': 'Consejo: marca las palabras que ocultar en una frase con {{c1::palabra}}, {{c2::otra}}… para crear una tarjeta por número.',
+    'manage.cloze.detected': 'Frase con huecos: una tarjeta por número de hueco, la traducción es opcional.',
+    'manage.cloze.number': 'Hueco {number}',
+    'details.show': 'Más detalles',
+    'details.hide': 'Menos detalles',
+    'details.example': 'Frase de ejemplo',
+    'details.example.placeholder': 'Frase con la palabra en {language}...',
+    'details.exampleTranslation': 'Traducción del ejemplo',
+    'details.exampleTranslation.placeholder': 'La frase en {language}...',
+    'details.notes': 'Notas',
+    'details.notes.placeholder': 'Lo que valga la pena recordar, p. ej. una forma irregular o un falso amigo...',
+    'details.partOfSpeech': 'Categoría gramatical',
+    'details.partOfSpeech.noun': 'Sustantivo',
+    'details.partOfSpeech.verb': 'Verbo',
+    'details.partOfSpeech.adjective': 'Adjetivo',
+    'details.partOfSpeech.adverb': 'Adverbio',
+    'details.partOfSpeech.pronoun': 'Pronombre',
+    'details.partOfSpeech.preposition': 'Preposición',
+    'details.partOfSpeech.conjunction': 'Conjunción',
+    'details.partOfSpeech.interjection': 'Interjección',
+    'details.partOfSpeech.phrase': 'Expresión',
+    'details.gender': 'Género',
+    'details.gender.masculine': 'Masculino',
+    'details.gender.feminine': 'Femenino',
+    'details.plural': 'Plural',
+    'details.plural.value': 'plural: {plural}',
+    'details.none': 'Sin indicar',
+    'image.label': 'Imagen',
+    'image.hint': 'Suelta una imagen aquí, o haz clic en este recuadro y pégala',
+    'image.processing': 'Preparando la imagen...',
+    'image.choose': 'Elegir imagen',
+    'image.replace': 'Cambiar',
+    'image.remove': 'Quitar imagen',
+    'image.error.type': 'Ese archivo no es una imagen',
+    'image.error.load': 'No se pudo cargar la imagen',
+    'recording.label': 'Pronunciación grabada',
+    'recording.start': 'Grabar',
+    'recording.again': 'Grabar de nuevo',
+    'recording.stop': 'Detener (quedan {seconds} s)',
+    'recording.play': 'Reproducir',
+    'recording.remove': 'Quitar grabación',
+    'recording.error.not-supported': 'Este navegador no permite grabar',
+    'recording.error.not-allowed': 'Se denegó el acceso al micrófono',
+    'recording.error.failed': 'La grabación falló, inténtalo de nuevo',
+    'recording.error.play': 'No se pudo reproducir la grabación',
+    'manage.state.new': 'Nueva',
+    'manage.state.learning': 'Aprendiendo',
+    'manage.state.relearning': 'Reaprendiendo',
+    'manage.state.review': 'Repaso',
+    'manage.unsuspend.all': 'Reactivar todas ({count})',
+    'manage.unbury.all': 'Desenterrar todas ({count})',
+    'manage.leeches': 'Sanguijuelas ({count})',
+    'manage.leeches.description': 'Tarjetas que sigues olvidando; reescríbelas con una regla mnemotécnica o un ejemplo',
     'manage.add.button': 'Añadir Tarjeta',
     'manage.search.placeholder': 'Buscar tarjetas...',
     'manage.loading': 'Cargando tarjetas...',
@@ -307,6 +672,33 @@ const translations = {
     'manage.no.cards': '¡Aún no hay tarjetas. Añade tu primera tarjeta arriba!',
     'manage.save': 'Guardar',
     'manage.cancel': 'Cancelar',
+    'deck.list.title': 'Mazos',
+    'deck.create.button': 'Nuevo Mazo',
+    'deck.all': 'Todos los mazos',
+    'deck.card.count': '{count} tarjetas',
+    'deck.no.description': 'Sin descripción',
+    'deck.edit.button': 'Editar',
+    'deck.export.button': 'Exportar',
+    'deck.delete.button': 'Eliminar',
+    'deck.label': 'Mazo',
+    'deck.create.title': 'Crear Mazo',
+    'deck.edit.title': 'Editar Mazo',
+    'deck.dialog.description': 'Agrupa las tarjetas por tema o par de idiomas y estudia cada mazo por separado.',
+    'deck.name': 'Nombre',
+    'deck.name.placeholder': 'p. ej. Frases de viaje',
+    'deck.description': 'Descripción',
+    'deck.description.placeholder': '¿De qué trata este mazo?',
+    'deck.source.language': 'Idioma que aprendes',
+    'deck.target.language': 'Idioma de la traducción',
+    'deck.color': 'Color',
+    'deck.directions': 'Sentido de las tarjetas',
+    'deck.directions.forward': 'Palabra → traducción',
+    'deck.directions.reverse': 'Traducción → palabra',
+    'deck.directions.both': 'Ambos sentidos',
+    'deck.directions.description': 'Cada sentido tiene su propia programación. Los dos sentidos de una palabra nunca se muestran el mismo día.',
+    'language.en': 'inglés',
+    'language.es': 'español',
+    'language.fr': 'francés',
     
     // Settings page
     'settings.title': 'Configuración',
@@ -315,6 +707,47 @@ const translations = {
     'settings.voice.subtitle': 'Personaliza la configuración de texto a voz',
     'settings.voice.loading': 'Cargando voces...',
     'settings.voice.description': 'Elige el idioma que quieres practicar y luego selecciona una voz específica que te suene más natural.',
+    'settings.study.title': 'Horario de Estudio',
+    'settings.study.subtitle': 'Pasos de aprendizaje, algoritmo de programación y límites diarios',
+    'settings.study.rollover': 'El día siguiente empieza a las',
+    'settings.study.rollover.description': 'Los repasos hechos antes de esta hora cuentan para el día anterior, así las sesiones nocturnas no rompen tu racha.',
+    'settings.study.algorithm': 'Algoritmo de programación',
+    'settings.study.algorithm.description': 'FSRS modela qué tan bien recuerdas cada tarjeta y suele necesitar menos repasos para la misma retención. El progreso existente se conserva al cambiar.',
+    'settings.study.retention': 'Retención deseada',
+    'settings.study.retention.description': 'Probabilidad de recordar una tarjeta cuando toca repasarla (0,70 a 0,99). Valores más altos implican más repasos.',
+    'config.learning.steps': 'Pasos de aprendizaje (minutos)',
+    'config.relearning.steps': 'Pasos de reaprendizaje (minutos)',
+    'config.graduating.interval': 'Intervalo de graduación (días)',
+    'config.easy.interval': 'Intervalo fácil (días)',
+    'config.new.per.day': 'Tarjetas nuevas por día',
+    'config.reviews.per.day': 'Máximo de repasos por día',
+    'config.leech.threshold': 'Umbral de sanguijuela',
+    'config.leech.threshold.description': 'Olvidos antes de marcar una tarjeta como sanguijuela, y de nuevo cada la mitad de olvidos después',
+    'config.leech.action': 'Cuando una tarjeta se vuelve sanguijuela',
+    'config.leech.action.tag': 'Etiquetarla como sanguijuela',
+    'config.leech.action.suspend': 'Etiquetarla y suspenderla',
+    'config.load.balancing': 'Equilibrio de carga',
+    'config.load.balancing.description': 'Los intervalos de repaso siempre se desplazan unos días al azar para que las tarjetas aprendidas juntas no venzan juntas. Con el equilibrio de carga se prefieren los días menos ocupados.',
+    'config.easy.days': 'Días ligeros',
+    'config.easy.days.description': 'Días de la semana con muchos menos repasos, p. ej. los días más ocupados.',
+    'settings.study.limits.description': 'Las tarjetas en aprendizaje siempre se muestran. Las nuevas y los repasos restantes esperan al día siguiente.',
+    'settings.study.save': 'Guardar Ajustes de Aprendizaje',
+    'settings.study.reset': 'Restablecer Valores',
+    'config.steps.placeholder': 'p. ej. 1 10 30',
+    'config.error.steps.empty': 'Introduce al menos un paso.',
+    'config.error.steps.positive': 'Los pasos deben ser minutos positivos.',
+    'config.error.steps.order': 'Cada paso debe ser más largo que el anterior.',
+    'config.error.number': 'Introduce un número.',
+    'config.error.whole.number': 'Introduce un número entero.',
+    'config.error.range': 'Debe estar entre {min} y {max}.',
+    'config.error.min': 'Debe ser al menos {min}.',
+    'config.error.easy.interval': 'El intervalo fácil no puede ser menor que el de graduación.',
+    'config.journey.title': 'El recorrido de una tarjeta nueva',
+    'config.journey.again': 'Otra vez: se muestra de nuevo tras {interval}',
+    'config.journey.good': 'Bien cada vez: {path}',
+    'config.journey.easy': 'Fácil a la primera: próximo repaso en {interval}',
+    'config.journey.lapse': 'Olvidar una tarjeta en repaso: reaprender tras {interval}',
+    'config.journey.invalid': 'Corrige los campos marcados para ver cómo se programarán las tarjetas.',
     'settings.language.title': 'Idioma y Apariencia',
     'settings.language.subtitle': 'Elige tu idioma y tema preferidos',
     'settings.practice.language': 'Idioma de Práctica',
@@ -335,6 +768,20 @@ const translations = {
     'settings.import': 'Importar Datos',
     'settings.import.description': 'Sube un archivo JSON para importar tarjetas (se fusionará con las existentes)',
     'settings.import.loading': 'Importando...',
+    'anki.title': 'Importar desde Anki',
+    'anki.description': 'Sube un paquete de mazo de Anki (.apkg). Las notas básicas y de huecos se convierten en tarjetas en mazos nuevos, con sus imágenes y audio',
+    'anki.scheduling': 'Conservar el historial de repaso',
+    'anki.scheduling.description': 'Importa fechas de repaso, intervalos y repasos anteriores en lugar de empezar cada tarjeta como nueva',
+    'anki.success': 'Se importaron {notes} notas ({cards} tarjetas) desde Anki',
+    'anki.report.imported': 'Se importaron {notes} notas y {cards} tarjetas',
+    'anki.report.decks': 'Mazos: {decks}',
+    'anki.report.duplicates': '{count} notas ya estaban importadas y se omitieron',
+    'anki.report.skipped.notes': 'No se pudieron importar {count} notas',
+    'anki.report.skipped.cards': '{count} tarjetas usan plantillas no compatibles y se omitieron',
+    'anki.report.unsupported': 'Tipos de nota no compatibles: {types}',
+    'anki.error.not-an-apkg': 'Este archivo no es un paquete de mazo de Anki',
+    'anki.error.unsupported-format': 'Este paquete usa un formato de Anki más reciente. Vuelve a exportarlo marcando "Compatible con versiones antiguas de Anki"',
+    'anki.error.failed': 'Error al importar el paquete de Anki',
     'settings.about': 'Acerca de',
     'settings.about.description': 'Una aplicación web progresiva para aprender idiomas con repetición espaciada, almacenamiento offline, capacidades mejoradas de texto a voz, modo oscuro y soporte multiidioma.',
     'settings.about.features': 'Características',
@@ -363,20 +810,34 @@ const translations = {
     'confirm.delete.card.title': 'Eliminar Tarjeta',
     'confirm.delete.card.description': '¿Estás seguro de que quieres eliminar esta tarjeta? Esta acción no se puede deshacer.',
     'confirm.delete.card.confirm': 'Eliminar',
+    'confirm.delete.deck.title': 'Eliminar Mazo',
+    'confirm.delete.deck.description': '¿Seguro que quieres eliminar "{name}"? Sus {count} tarjetas y su historial de repaso se eliminarán permanentemente.',
     'confirm.cancel': 'Cancelar',
     'confirm.continue': 'Continuar',
     
     // Success messages
     'success.import': '¡Importación exitosa!',
     'success.export': '¡Exportación completada con éxito!',
+    'success.deck.created': '¡Mazo creado!',
+    'success.deck.updated': '¡Mazo actualizado!',
+    'success.deck.deleted': '¡Mazo eliminado!',
     'success.delete.all': 'Todos los datos han sido eliminados.',
     'success.card.added': '¡Tarjeta añadida con éxito!',
     'success.card.updated': '¡Tarjeta actualizada con éxito!',
     'success.card.deleted': '¡Tarjeta eliminada con éxito!',
+    'success.card.suspended': 'Tarjeta suspendida',
+    'success.card.unsuspended': 'Tarjeta reactivada',
+    'success.card.buried': 'Tarjeta enterrada hasta mañana',
+    'success.card.unburied': 'Tarjeta desenterrada',
+    'success.cards.unsuspended': '{count} tarjetas reactivadas',
+    'success.cards.unburied': '{count} tarjetas desenterradas',
+    'success.settings.saved': '¡Ajustes de aprendizaje guardados!',
     
     // Error messages
     'error.import': 'Error en la importación. Por favor verifica el formato del archivo e inténtalo de nuevo.',
     'error.export': 'Error en la exportación. Por favor inténtalo de nuevo.',
+    'error.deck.save': 'Error al guardar el mazo. Por favor inténtalo de nuevo.',
+    'error.deck.delete': 'Error al eliminar el mazo. Por favor inténtalo de nuevo.',
     'error.delete.all': 'Error al eliminar los datos. Por favor inténtalo de nuevo.',
     'error.card.add': 'Error al añadir la tarjeta. Por favor inténtalo de nuevo.',
     'error.card.update': 'Error al actualizar la tarjeta. Por favor inténtalo de nuevo.',
@@ -384,6 +845,7 @@ const translations = {
     'error.load.cards': 'Error al cargar las tarjetas. Por favor inténtalo de nuevo.',
     'error.voice.change': 'Error al cambiar la voz. Por favor inténtalo de nuevo.',
     'error.voice.test': 'Error al probar la voz. Por favor inténtalo de nuevo.',
+    'error.settings.save': 'Error al guardar la configuración. Por favor inténtalo de nuevo.',
   },
   fr: {
     // Navigation
@@ -404,6 +866,8 @@ const translations = {
     'home.stats.due': 'À Faire Aujourd\'hui',
     'home.stats.reviewed': 'Révisées Aujourd\'hui',
     'home.stats.mastery': 'Maîtrise',
+    'home.stats.streak': 'Jours d\'Affilée',
+    'home.stats.best': 'Record',
     'home.features.spaced.title': 'Répétition Espacée',
     'home.features.spaced.desc': 'Algorithme intelligent qui montre les cartes quand vous devez les réviser le plus.',
     'home.features.tts.title': 'Texte vers Parole',
@@ -434,6 +898,8 @@ const translations = {
     'dashboard.stats.reviewed.desc': 'Cartes étudiées aujourd\'hui',
     'dashboard.stats.streak': 'Série Actuelle',
     'dashboard.stats.streak.desc': 'Jours étudiés d\'affilée',
+    'dashboard.stats.longest': 'Plus Longue Série',
+    'dashboard.stats.longest.desc': 'Votre meilleure série de jours d\'étude',
     'dashboard.stats.mastery': 'Niveau de Maîtrise',
     'dashboard.stats.mastery.desc': 'Cartes marquées comme faciles',
     'dashboard.goal.title': 'Objectif d\'Aujourd\'hui',
@@ -441,6 +907,11 @@ const translations = {
     'dashboard.goal.no_cards': 'Aucune carte à réviser aujourd\'hui',
     'dashboard.goal.progress': 'Progrès',
     'dashboard.goal.remaining': 'cartes restantes à réviser',
+    'dashboard.goal.new_learned': 'Nouvelles apprises',
+    'dashboard.goal.again': 'Encore',
+    'dashboard.goal.time': 'Temps passé',
+    'dashboard.goal.minutes': 'min',
+    'dashboard.goal.new_remaining': 'nouvelles cartes restantes aujourd\'hui',
     'dashboard.mastery.title': 'Progrès de Maîtrise',
     'dashboard.mastery.level': 'Niveau de Maîtrise',
     'dashboard.mastery.of': 'sur',
@@ -451,13 +922,19 @@ const translations = {
     'dashboard.actions.add': 'Ajouter des Cartes',
     'dashboard.actions.stats': 'Voir les Statistiques',
     'dashboard.actions.settings': 'Paramètres',
+    'dashboard.decks.title': 'Paquets',
+    'dashboard.decks.subtitle': 'Étudiez un paquet à la fois',
+    'dashboard.decks.new': '{count} nouvelles',
+    'dashboard.decks.due': '{count} à réviser',
+    'dashboard.decks.study': 'Étudier',
 
     // Review page
     'review.title.due': 'Session de Révision',
     'review.title.all': 'Session de Pratique',
     'review.subtitle': 'Carte',
     'review.subtitle.of': 'sur',
-    'review.card.french': 'Mot Français',
+    'review.card.front': 'Mot en {language}',
+    'review.cloze.title': 'Complétez le blanc',
     'review.card.translation': 'Traduction',
     'review.listen': 'Écouter',
     'review.show.answer': 'Montrer la Réponse',
@@ -473,15 +950,134 @@ const translations = {
     'review.check.again': 'Vérifier Encore',
     'review.all.cards': 'Réviser Toutes les Cartes',
     'review.loading': 'Chargement des cartes...',
+    'review.interval': 'Intervalle',
+    'review.lapses': 'Oublis',
+    'review.new.remaining': 'nouvelles cartes restantes aujourd\'hui',
+    'review.reviews.remaining': 'révisions restantes aujourd\'hui',
+    'review.undo': 'Annuler',
+    'review.undo.shortcut': 'Annuler la dernière réponse (Ctrl+Z ou U)',
+    'review.bury': 'Enfouir',
+    'review.bury.description': 'Masquer cette carte jusqu\'à demain',
+    'review.suspend': 'Suspendre',
+    'review.suspend.description': 'Masquer cette carte jusqu\'à ce que vous la réactiviez',
+    'review.leech.title': 'Sangsue détectée',
+    'review.leech.tagged': '« {front} » a été oubliée {lapses} fois et a été étiquetée comme sangsue. Essayez de la réécrire avec un moyen mnémotechnique ou un exemple.',
+    'review.leech.suspended': '« {front} » a été oubliée {lapses} fois et a été suspendue. Réécrivez-la dans Gérer, puis réactivez-la.',
+    'review.mode.label': 'Mode de réponse',
+    'review.mode.flip': 'Retourner',
+    'review.mode.flip.description': 'Affichez la réponse et notez-vous vous-même',
+    'review.mode.type': 'Taper',
+    'review.mode.type.description': 'Tapez chaque réponse et faites-la vérifier lettre par lettre',
+    'review.mode.choice': 'Choix multiple',
+    'review.mode.choice.description': 'Choisissez la réponse parmi quelques options, notée automatiquement',
+    'review.mode.dictation': 'Dictée',
+    'review.mode.dictation.description': 'Écoutez le mot sans le voir et tapez ce que vous avez entendu',
+    'review.dictation.title': 'Écoutez ({language})',
+    'review.dictation.slow': 'Lentement',
+    'review.dictation.placeholder': 'Tapez ce que vous avez entendu en {language}',
+    'review.mode.speaking': 'Oral',
+    'review.mode.speaking.description': 'Dites le mot à voix haute et faites vérifier votre prononciation',
+    'review.speaking.title': 'Dites-le en {language}',
+    'review.speaking.start': 'Le dire',
+    'review.speaking.listening': 'Écoute… touchez pour arrêter',
+    'review.speaking.heard': 'Entendu « {transcript} » · {score} % de correspondance',
+    'review.speaking.retry': 'Réessayer',
+    'review.speaking.error.not-supported': 'La reconnaissance vocale n\'est pas disponible dans ce navigateur',
+    'review.speaking.error.not-allowed': 'Autorisez l\'accès au micro pour pratiquer l\'oral',
+    'review.speaking.error.no-speech': 'Rien n\'a été entendu, réessayez',
+    'review.speaking.error.failed': 'La reconnaissance vocale a échoué, réessayez',
+    'review.choice.correct': 'Correct !',
+    'review.choice.incorrect': 'Pas tout à fait, la réponse est « {answer} ».',
+    'review.choice.continue': 'Continuer',
+    'review.choice.shortcut': 'Appuyez sur 1 à {count} pour choisir et sur Entrée pour continuer',
+    'review.type.placeholder': 'Tapez la réponse en {language}',
+    'review.type.check': 'Vérifier',
+    'review.type.correct': 'Correct !',
+    'review.type.suggested': 'Note suggérée : {grade}. Appuyez sur Entrée pour l\'accepter ou choisissez-en une autre.',
+    'review.type.answer': 'Réponse',
+    'review.type.legend.accent': 'accent',
+    'review.type.legend.swapped': 'inversées',
+    'review.type.legend.wrong': 'fausse',
+    'review.type.legend.missing': 'manquante',
+    'review.type.legend.extra': 'en trop',
+    'interval.unit.minute': 'min',
+    'interval.unit.hour': 'h',
+    'interval.unit.day': 'j',
+    'interval.unit.month': 'mois',
+    'interval.unit.year': 'a',
 
     // Manage page  
     'manage.title': 'Gérer les Cartes',
     'manage.subtitle': 'Ajouter, modifier ou supprimer vos cartes',
     'manage.add.title': 'Ajouter une Nouvelle Carte',
-    'manage.french.label': 'Mot/Phrase Français',
-    'manage.french.placeholder': 'Entrez un mot français...',
-    'manage.english.label': 'Traduction Française',
-    'manage.english.placeholder': 'Entrez la traduction française...',
+    'manage.front.label': 'Mot/Phrase en {language}',
+    'manage.front.placeholder': 'Entrez un mot en {language}...',
+    'manage.back.label': 'Traduction en {language}',
+    'manage.back.placeholder': 'Entrez la traduction en {language}...',
+    'manage.tags.label': 'Étiquettes',
+    'manage.tags.placeholder': 'ex. nourriture voyage',
+    'manage.tags.filter': 'Filtrer par étiquette :',
+    'manage.suspend': 'Suspendre',
+    'manage.unsuspend': 'Réactiver',
+    'manage.bury': 'Enfouir jusqu\'à demain',
+    'manage.unbury': 'Déterrer',
+    'manage.status.suspended': 'Suspendue',
+    'manage.status.buried': 'Enfouie jusqu\'à demain',
+    'manage.directions.deck': 'Comme le paquet ({directions})',
+    'manage.direction.off': 'non étudié',
+    'manage.cloze.hint': 'Astuce : marquez les mots à cacher dans une phrase avec {{c1::mot}}, {{c2::autre}}… pour créer une carte par numéro.',
+    'manage.cloze.detected': 'Phrase à trous : une carte par numéro de trou, la traduction est facultative.',
+    'manage.cloze.number': 'Trou {number}',
+    'details.show': 'Plus de détails',
+    'details.hide': 'Moins de détails',
+    'details.example': 'Phrase d\'exemple',
+    'details.example.placeholder': 'Phrase utilisant le mot en {language}...',
+    'details.exampleTranslation': 'Traduction de l\'exemple',
+    'details.exampleTranslation.placeholder': 'La phrase en {language}...',
+    'details.notes': 'Notes',
+    'details.notes.placeholder': 'Ce qui mérite d\'être retenu, p. ex. une forme irrégulière ou un faux ami...',
+    'details.partOfSpeech': 'Nature du mot',
+    'details.partOfSpeech.noun': 'Nom',
+    'details.partOfSpeech.verb': 'Verbe',
+    'details.partOfSpeech.adjective': 'Adjectif',
+    'details.partOfSpeech.adverb': 'Adverbe',
+    'details.partOfSpeech.pronoun': 'Pronom',
+    'details.partOfSpeech.preposition': 'Préposition',
+    'details.partOfSpeech.conjunction': 'Conjonction',
+    'details.partOfSpeech.interjection': 'Interjection',
+    'details.partOfSpeech.phrase': 'Expression',
+    'details.gender': 'Genre',
+    'details.gender.masculine': 'Masculin',
+    'details.gender.feminine': 'Féminin',
+    'details.plural': 'Pluriel',
+    'details.plural.value': 'pluriel : {plural}',
+    'details.none': 'Non précisé',
+    'image.label': 'Image',
+    'image.hint': 'Déposez une image ici, ou cliquez dans ce cadre et collez-la',
+    'image.processing': 'Préparation de l\'image...',
+    'image.choose': 'Choisir une image',
+    'image.replace': 'Remplacer',
+    'image.remove': 'Retirer l\'image',
+    'image.error.type': 'Ce fichier n\'est pas une image',
+    'image.error.load': 'Impossible de charger l\'image',
+    'recording.label': 'Prononciation enregistrée',
+    'recording.start': 'Enregistrer',
+    'recording.again': 'Réenregistrer',
+    'recording.stop': 'Arrêter (encore {seconds} s)',
+    'recording.play': 'Écouter',
+    'recording.remove': 'Supprimer l\'enregistrement',
+    'recording.error.not-supported': 'L\'enregistrement n\'est pas pris en charge par ce navigateur',
+    'recording.error.not-allowed': 'L\'accès au micro a été refusé',
+    'recording.error.failed': 'L\'enregistrement a échoué, veuillez réessayer',
+    'recording.error.play': 'Impossible de lire l\'enregistrement',
+    'manage.state.new': 'Nouvelle',
+    'manage.state.learning': 'En apprentissage',
+    'manage.state.relearning': 'En réapprentissage',
+    'manage.state.review': 'Révision',
+    'manage.unsuspend.all': 'Tout réactiver ({count})',
+    'manage.unbury.all': 'Tout déterrer ({count})',
+    'manage.leeches': 'Sangsues ({count})',
+    'manage.leeches.description': 'Cartes que vous oubliez sans cesse ; réécrivez-les avec un moyen mnémotechnique ou un exemple',
     'manage.add.button': 'Ajouter une Carte',
     'manage.search.placeholder': 'Rechercher des cartes...',
     'manage.loading': 'Chargement des cartes...',
@@ -489,6 +1085,33 @@ const translations = {
     'manage.no.cards': 'Pas encore de cartes. Ajoutez votre première carte ci-dessus !',
     'manage.save': 'Enregistrer',
     'manage.cancel': 'Annuler',
+    'deck.list.title': 'Paquets',
+    'deck.create.button': 'Nouveau Paquet',
+    'deck.all': 'Tous les paquets',
+    'deck.card.count': '{count} cartes',
+    'deck.no.description': 'Aucune description',
+    'deck.edit.button': 'Modifier',
+    'deck.export.button': 'Exporter',
+    'deck.delete.button': 'Supprimer',
+    'deck.label': 'Paquet',
+    'deck.create.title': 'Créer un Paquet',
+    'deck.edit.title': 'Modifier le Paquet',
+    'deck.dialog.description': 'Regroupez vos cartes par thème ou par paire de langues et étudiez chaque paquet séparément.',
+    'deck.name': 'Nom',
+    'deck.name.placeholder': 'ex. Phrases de voyage',
+    'deck.description': 'Description',
+    'deck.description.placeholder': 'De quoi parle ce paquet ?',
+    'deck.source.language': 'Langue apprise',
+    'deck.target.language': 'Langue de traduction',
+    'deck.color': 'Couleur',
+    'deck.directions': 'Sens des cartes',
+    'deck.directions.forward': 'Mot → traduction',
+    'deck.directions.reverse': 'Traduction → mot',
+    'deck.directions.both': 'Les deux sens',
+    'deck.directions.description': 'Chaque sens a sa propre planification. Les deux sens d\'un mot ne sont jamais montrés le même jour.',
+    'language.en': 'anglais',
+    'language.es': 'espagnol',
+    'language.fr': 'français',
     
     // Settings page
     'settings.title': 'Paramètres',
@@ -497,6 +1120,47 @@ const translations = {
     'settings.voice.subtitle': 'Personnalisez les paramètres de synthèse vocale',
     'settings.voice.loading': 'Chargement des voix...',
     'settings.voice.description': 'Choisissez la langue que vous voulez pratiquer puis sélectionnez une voix spécifique qui vous semble la plus naturelle.',
+    'settings.study.title': 'Planning d\'Étude',
+    'settings.study.subtitle': 'Étapes d\'apprentissage, algorithme de planification et limites quotidiennes',
+    'settings.study.rollover': 'Le jour suivant commence à',
+    'settings.study.rollover.description': 'Les révisions faites avant cette heure comptent pour la veille, ainsi les sessions tardives ne cassent pas votre série.',
+    'settings.study.algorithm': 'Algorithme de planification',
+    'settings.study.algorithm.description': 'FSRS modélise à quel point vous retenez chaque carte et demande généralement moins de révisions pour la même rétention. La progression existante est conservée lors du changement.',
+    'settings.study.retention': 'Rétention souhaitée',
+    'settings.study.retention.description': 'Probabilité de se souvenir d\'une carte au moment de la réviser (0,70 à 0,99). Des valeurs plus élevées signifient plus de révisions.',
+    'config.learning.steps': 'Étapes d\'apprentissage (minutes)',
+    'config.relearning.steps': 'Étapes de réapprentissage (minutes)',
+    'config.graduating.interval': 'Intervalle de graduation (jours)',
+    'config.easy.interval': 'Intervalle facile (jours)',
+    'config.new.per.day': 'Nouvelles cartes par jour',
+    'config.reviews.per.day': 'Révisions maximum par jour',
+    'config.leech.threshold': 'Seuil de sangsue',
+    'config.leech.threshold.description': 'Oublis avant qu\'une carte soit signalée comme sangsue, puis de nouveau tous les deux fois moins d\'oublis',
+    'config.leech.action': 'Quand une carte devient une sangsue',
+    'config.leech.action.tag': 'L\'étiqueter comme sangsue',
+    'config.leech.action.suspend': 'L\'étiqueter et la suspendre',
+    'config.load.balancing': 'Équilibrage de la charge',
+    'config.load.balancing.description': 'Les intervalles de révision sont toujours décalés de quelques jours au hasard pour que les cartes apprises ensemble ne reviennent pas ensemble. Avec l\'équilibrage, les jours les moins chargés sont privilégiés.',
+    'config.easy.days': 'Jours légers',
+    'config.easy.days.description': 'Jours de la semaine avec beaucoup moins de révisions, ex. les jours chargés.',
+    'settings.study.limits.description': 'Les cartes en apprentissage sont toujours affichées. Les nouvelles cartes et révisions restantes attendent le jour suivant.',
+    'settings.study.save': 'Enregistrer les Réglages d\'Apprentissage',
+    'settings.study.reset': 'Valeurs par Défaut',
+    'config.steps.placeholder': 'ex. 1 10 30',
+    'config.error.steps.empty': 'Saisissez au moins une étape.',
+    'config.error.steps.positive': 'Les étapes doivent être des minutes positives.',
+    'config.error.steps.order': 'Chaque étape doit être plus longue que la précédente.',
+    'config.error.number': 'Saisissez un nombre.',
+    'config.error.whole.number': 'Saisissez un nombre entier.',
+    'config.error.range': 'Doit être entre {min} et {max}.',
+    'config.error.min': 'Doit être au moins {min}.',
+    'config.error.easy.interval': 'L\'intervalle facile ne peut pas être plus court que l\'intervalle de graduation.',
+    'config.journey.title': 'Le parcours d\'une nouvelle carte',
+    'config.journey.again': 'Encore : revue après {interval}',
+    'config.journey.good': 'Bien à chaque fois : {path}',
+    'config.journey.easy': 'Facile du premier coup : prochaine révision dans {interval}',
+    'config.journey.lapse': 'Oubli d\'une carte en révision : réapprentissage après {interval}',
+    'config.journey.invalid': 'Corrigez les champs signalés pour voir comment les cartes seront planifiées.',
     'settings.language.title': 'Langue et Apparence',
     'settings.language.subtitle': 'Choisissez votre langue et thème préférés',
     'settings.practice.language': 'Langue de Pratique',
@@ -517,6 +1181,20 @@ const translations = {
     'settings.import': 'Importer des Données',
     'settings.import.description': 'Téléchargez un fichier JSON pour importer des cartes (sera fusionné avec les cartes existantes)',
     'settings.import.loading': 'Importation...',
+    'anki.title': 'Importer depuis Anki',
+    'anki.description': 'Téléversez un fichier de paquet Anki (.apkg). Les notes basiques et à trous deviennent des cartes dans de nouveaux paquets, avec leurs images et leur audio',
+    'anki.scheduling': 'Conserver l\'historique de révision',
+    'anki.scheduling.description': 'Importe les échéances, les intervalles et les révisions passées au lieu de repartir de zéro pour chaque carte',
+    'anki.success': '{notes} notes ({cards} cartes) importées depuis Anki',
+    'anki.report.imported': '{notes} notes et {cards} cartes importées',
+    'anki.report.decks': 'Paquets : {decks}',
+    'anki.report.duplicates': '{count} notes avaient déjà été importées et ont été ignorées',
+    'anki.report.skipped.notes': '{count} notes n\'ont pas pu être importées',
+    'anki.report.skipped.cards': '{count} cartes utilisent des modèles non pris en charge et ont été ignorées',
+    'anki.report.unsupported': 'Types de note non pris en charge : {types}',
+    'anki.error.not-an-apkg': 'Ce fichier n\'est pas un paquet Anki',
+    'anki.error.unsupported-format': 'Ce paquet utilise un format Anki plus récent. Exportez-le de nouveau en cochant « Prendre en charge les anciennes versions d\'Anki »',
+    'anki.error.failed': 'Échec de l\'importation du paquet Anki',
     'settings.about': 'À propos',
     'settings.about.description': 'Une application web progressive pour l\'apprentissage des langues avec répétition espacée, stockage hors ligne, capacités améliorées de synthèse vocale, mode sombre et support multilingue.',
     'settings.about.features': 'Fonctionnalités',
@@ -545,20 +1223,34 @@ const translations = {
     'confirm.delete.card.title': 'Supprimer la Carte',
     'confirm.delete.card.description': 'Êtes-vous sûr de vouloir supprimer cette carte ? Cette action ne peut pas être annulée.',
     'confirm.delete.card.confirm': 'Supprimer',
+    'confirm.delete.deck.title': 'Supprimer le Paquet',
+    'confirm.delete.deck.description': 'Voulez-vous vraiment supprimer « {name} » ? Ses {count} cartes et leur historique de révision seront définitivement supprimés.',
     'confirm.cancel': 'Annuler',
     'confirm.continue': 'Continuer',
     
     // Success messages
     'success.import': 'Importation réussie !',
     'success.export': 'Exportation terminée avec succès !',
+    'success.deck.created': 'Paquet créé !',
+    'success.deck.updated': 'Paquet mis à jour !',
+    'success.deck.deleted': 'Paquet supprimé !',
     'success.delete.all': 'Toutes les données ont été effacées.',
     'success.card.added': 'Carte ajoutée avec succès !',
     'success.card.updated': 'Carte mise à jour avec succès !',
     'success.card.deleted': 'Carte supprimée avec succès !',
+    'success.card.suspended': 'Carte suspendue',
+    'success.card.unsuspended': 'Carte réactivée',
+    'success.card.buried': 'Carte enfouie jusqu\'à demain',
+    'success.card.unburied': 'Carte déterrée',
+    'success.cards.unsuspended': '{count} cartes réactivées',
+    'success.cards.unburied': '{count} cartes déterrées',
+    'success.settings.saved': 'Réglages d\'apprentissage enregistrés !',
     
     // Error messages
     'error.import': 'Échec de l\'importation. Veuillez vérifier le format du fichier et réessayer.',
     'error.export': 'Échec de l\'exportation. Veuillez réessayer.',
+    'error.deck.save': 'Échec de l\'enregistrement du paquet. Veuillez réessayer.',
+    'error.deck.delete': 'Échec de la suppression du paquet. Veuillez réessayer.',
     'error.delete.all': 'Échec de la suppression des données. Veuillez réessayer.',
     'error.card.add': 'Échec de l\'ajout de la carte. Veuillez réessayer.',
     'error.card.update': 'Échec de la mise à jour de la carte. Veuillez réessayer.',
@@ -566,6 +1258,7 @@ const translations = {
     'error.load.cards': 'Échec du chargement des cartes. Veuillez réessayer.',
     'error.voice.change': 'Échec du changement de voix. Veuillez réessayer.',
     'error.voice.test': 'Échec du test de voix. Veuillez réessayer.',
+    'error.settings.save': 'Échec de l\'enregistrement des paramètres. Veuillez réessayer.',
   },
 };
 
@@ -586,8 +1279,10 @@ export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorage.setItem('language', language);
   }, [language]);
 
-  const t = (key: string): string => {
-    return translations[language][key as keyof typeof translations[typeof language]] || key;
+  const t = (key: string, params?: Record<string, string | number>): string => {
+    const text: string = translations[language][key as keyof typeof translations[typeof language]] || key;
+    // Placeholders like {count} are replaced with the matching param
+    return params ? text.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : text;
   };
 
   return (
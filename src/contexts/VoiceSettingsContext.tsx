@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { tts, SupportedLanguage } from '@/lib/speech';
+import { tts, SpeakOptions, SupportedLanguage } from '@/lib/speech';
+import { recordingPlayer } from '@/lib/audioRecorder';
+import { getSpokenText } from '@/lib/cloze';
+import { Flashcard, getMedia } from '@/lib/database';
 
 interface VoiceSettings {
   practiceLanguage: SupportedLanguage;
@@ -12,7 +15,9 @@ interface VoiceSettingsContextType {
   setPracticeLanguage: (language: SupportedLanguage) => void;
   setSelectedVoice: (voiceName: string) => void;
   isVoicesLoaded: boolean;
-  speak: (text: string, language?: SupportedLanguage) => Promise<void>;
+  speak: (text: string, language?: SupportedLanguage, options?: SpeakOptions) => Promise<void>;
+  // Plays the card's own recording if it has one, otherwise reads its front
+  speakCard: (card: Flashcard, language?: SupportedLanguage, options?: SpeakOptions) => Promise<void>;
 }
 
 const VoiceSettingsContext = createContext<VoiceSettingsContextType | undefined>(undefined);
@@ -123,7 +128,7 @@ export const VoiceSettingsProvider: React.FC<{ children: ReactNode }> = ({ child
     }
   };
 
-  const speak = async (text: string, language?: SupportedLanguage) => {
+  const speak = async (text: string, language?: SupportedLanguage, options?: SpeakOptions) => {
     const languageToUse = language || practiceLanguage;
     console.log('Speaking:', text, 'in language:', languageToUse, 'with voice:', selectedVoice);
     try {
@@ -131,19 +136,36 @@ export const VoiceSettingsProvider: React.FC<{ children: ReactNode }> = ({ child
       if (selectedVoice && languageToUse === practiceLanguage) {
         await tts.setVoiceForLanguage(languageToUse, selectedVoice);
       }
-      await tts.speak(text, languageToUse);
+      recordingPlayer.stop();
+      await tts.speak(text, languageToUse, options);
     } catch (error) {
       console.error('Error speaking text:', error);
     }
   };
 
+  const speakCard = async (card: Flashcard, language?: SupportedLanguage, options?: SpeakOptions) => {
+    try {
+      const recording = card.audioId && await getMedia(card.audioId);
+      if (recording) {
+        tts.stop();
+        await recordingPlayer.play(recording, options);
+        return;
+      }
+    } catch (error) {
+      // The synthesized voice is still better than nothing
+      console.error('Error playing recording:', error);
+    }
+    await speak(getSpokenText(card), language, options);
+  };
+
   const value: VoiceSettingsContextType = {
     practiceLanguage,
     selectedVoice,
     setPracticeLanguage,
     setSelectedVoice,
     isVoicesLoaded,
-    speak
+    speak,
+    speakCard
   };
 
   return (
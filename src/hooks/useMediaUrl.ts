@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { getMedia } from '@/lib/database';
+
+// Object URL for an image, given either its id in the media store or a Blob that is not
+// stored yet. The URL is revoked when the image changes or the component unmounts.
+export const useMediaUrl = (source: string | Blob | null | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let isCancelled = false;
+
+    const load = async () => {
+      try {
+        const blob = typeof source === 'string' ? await getMedia(source) : source;
+        if (blob && !isCancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        }
+      } catch (error) {
+        console.error('Failed to load image:', error);
+      }
+    };
+
+    setUrl(null);
+    load();
+    return () => {
+      isCancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [source]);
+
+  return url;
+};
@@ -0,0 +1,357 @@
+// Imports Anki decks (.apkg files) entirely in the browser. A package is a zip holding the
+// collection as an SQLite database, read with sql.js, and the media files its notes refer to.
+// Basic notes become a word with a forward card, and a reverse card when the note type has a
+// second template; cloze notes keep their {{c1::…}} markers, which use the same syntax here.
+
+import { strFromU8, unzipSync } from 'fflate';
+import type { Database } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  addImportedData,
+  CardDirection,
+  CardKind,
+  createCard,
+  DECK_COLORS,
+  Flashcard,
+  getAllDecks,
+  getAllFlashcards,
+  ImportedData,
+  parseTags,
+  ReviewDifficulty,
+  ReviewLog,
+} from './database';
+import { isClozeText } from './cloze';
+import { downscaleImage } from './media';
+import type { SupportedLanguage } from './speech';
+
+export interface AnkiImportOptions {
+  includeScheduling: boolean; // Keep intervals, ease, lapses, due dates and review history
+  // Languages of the decks created for the import, which Anki doesn't record
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+}
+
+export interface AnkiImportReport {
+  importedNotes: number;
+  importedCards: number;
+  decks: string[]; // Names of the decks cards were added to
+  duplicateNotes: number; // Already imported from the same Anki note
+  skippedNotes: number; // Empty, without cards, or of an unsupported note type
+  skippedCards: number; // Cards of templates after the first two, which have no direction here
+  unsupportedNoteTypes: string[];
+}
+
+// Anki's note types and decks, as stored in the JSON columns of its col table
+interface AnkiModel {
+  name: string;
+  type: number; // 0 for standard note types, 1 for cloze
+  flds: { name: string }[];
+}
+
+interface AnkiNote {
+  id: number;
+  guid: string;
+  mid: number; // Note type
+  tags: string; // Space separated
+  flds: string; // Fields separated by \x1f
+}
+
+interface AnkiCard {
+  id: number;
+  nid: number;
+  did: number; // Deck
+  odid: number; // Deck the card came from while it is in a filtered deck
+  ord: number; // Template, or cloze number minus one
+  type: number; // 0 new, 1 learning, 2 review, 3 relearning
+  queue: number; // -1 suspended, -2 and -3 buried
+  due: number; // Days since the collection was created for reviews, a timestamp in seconds for learning
+  ivl: number; // Days
+  factor: number; // Ease in permille
+  reps: number;
+  lapses: number;
+  odue: number; // Due date before the card was moved into a filtered deck
+  data: string; // JSON holding the FSRS memory state, if any
+}
+
+interface AnkiReview {
+  id: number; // Timestamp in milliseconds
+  cid: number;
+  ease: number; // Button pressed, 1 to 4; 0 for manual reschedules
+  ivl: number; // Days, or seconds when negative
+  factor: number;
+  time: number; // Milliseconds
+  type: number; // 0 learning, 1 review, 2 relearning, 3 filtered, 4 manual
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+const CARD_STATES: Flashcard['cardState'][] = ['new', 'learning', 'review', 'relearning'];
+const DIFFICULTIES: ReviewDifficulty[] = ['again', 'hard', 'good', 'easy'];
+// Anki's first scheduler shows three buttons while learning and relearning: again, good and easy
+const LEARNING_DIFFICULTIES_V1: ReviewDifficulty[] = ['again', 'good', 'easy'];
+const IMAGE_PATTERN = /<img[^>]+src="([^"]+)"/i;
+const SOUND_PATTERN = /\[sound:([^\]]+)\]/; // First sound of a field, imported as the recording
+const SOUND_TAGS = /\[sound:[^\]]+\]/g;
+
+const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  webm: 'audio/webm',
+};
+
+function selectAll<T>(db: Database, sql: string): T[] {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+  return result.values.map(row =>
+    Object.fromEntries(result.columns.map((column, index) => [column, row[index]])) as T
+  );
+}
+
+// Fields are HTML; sounds are taken out as they are imported separately
+function htmlToText(html: string): string {
+  const withBreaks = html.replace(SOUND_TAGS, '').replace(/<br\s*\/?>|<\/div>|<\/p>/gi, ' ');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function getSchedule(card: AnkiCard, collectionCreated: number, now: Date): Partial<Flashcard> {
+  const cardState = CARD_STATES[card.type] || 'new';
+  const due = card.odue || card.due;
+  // Learning cards due later today have a timestamp, those due on a later day a day number
+  const dueDate = cardState === 'new'
+    ? now
+    : due > 1e9 ? new Date(due * 1000) : new Date(collectionCreated + due * DAY_MS);
+  let memoryState: { s?: number; d?: number } = {};
+  try {
+    memoryState = card.data ? JSON.parse(card.data) : {};
+  } catch {
+    // Cards without FSRS data are scheduled from their interval and ease
+  }
+
+  return {
+    cardState,
+    nextReviewDate: dueDate,
+    interval: cardState === 'review' ? card.ivl : 0,
+    ease: card.factor ? card.factor / 1000 : 2.5,
+    reviewCount: card.reps,
+    lapses: card.lapses,
+    suspended: card.queue === -1 || undefined,
+    stability: memoryState.s,
+    difficulty: memoryState.d,
+  };
+}
+
+// Anki's review log, rebuilt as ours. Intervals are in days, or minutes while learning.
+function convertReviews(reviews: AnkiReview[], cardIds: Map<number, Flashcard>, schedulerVersion: number): ReviewLog[] {
+  const logs: ReviewLog[] = [];
+  const previous = new Map<number, ReviewLog>();
+  for (const review of reviews) {
+    const card = cardIds.get(review.cid);
+    const difficulties = schedulerVersion === 1 && review.type !== 1 ? LEARNING_DIFFICULTIES_V1 : DIFFICULTIES;
+    if (!card || review.ease < 1 || review.ease > difficulties.length || review.type > 2) continue;
+
+    const last = previous.get(review.cid);
+    const isLearning = review.ivl < 0;
+    const newInterval = isLearning ? Math.round(-review.ivl / 60) : review.ivl;
+    const newEase = review.factor ? review.factor / 1000 : last?.newEase ?? 2.5;
+    const log: ReviewLog = {
+      id: uuidv4(),
+      cardId: card.id,
+      timestamp: new Date(review.id),
+      difficulty: difficulties[review.ease - 1],
+      previousInterval: last?.newInterval ?? 0,
+      newInterval,
+      previousEase: last?.newEase ?? 2.5,
+      newEase,
+      previousState: last?.newState ?? 'new',
+      newState: isLearning ? (review.type === 0 ? 'learning' : 'relearning') : 'review',
+      timeTaken: review.time,
+    };
+    logs.push(log);
+    previous.set(review.cid, log);
+  }
+  return logs;
+}
+
+// Rejects with Error('not-an-apkg') for other files and Error('unsupported-format') for
+// packages only newer Anki versions can read
+export async function importAnkiPackage(file: Blob, options: AnkiImportOptions): Promise<AnkiImportReport> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error('not-an-apkg');
+  }
+  // Packages exported without "Support older Anki versions" hold a compressed collection,
+  // next to a placeholder collection.anki2 that only asks to update Anki
+  const collection = files['collection.anki21'] || (!files['collection.anki21b'] && files['collection.anki2']);
+  if (!collection) {
+    throw new Error(files['collection.anki21b'] ? 'unsupported-format' : 'not-an-apkg');
+  }
+
+  // sql.js is only loaded when a package is imported
+  const { default: initSqlJs } = await import('sql.js');
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const ankiDb = new SQL.Database(collection);
+  try {
+    const [col] = selectAll<{ crt: number; conf: string; models: string; decks: string }>(
+      ankiDb,
+      'SELECT crt, conf, models, decks FROM col'
+    );
+    if (!col) throw new Error('not-an-apkg');
+    // Collections that never switched to a newer scheduler have no version recorded
+    const schedulerVersion: number = JSON.parse(col.conf || '{}').schedVer ?? 1;
+    const models: Record<string, AnkiModel> = JSON.parse(col.models);
+    const ankiDecks: Record<string, { name: string }> = JSON.parse(col.decks);
+    const notes = selectAll<AnkiNote>(ankiDb, 'SELECT id, guid, mid, tags, flds FROM notes');
+    const ankiCards = selectAll<AnkiCard>(
+      ankiDb,
+      'SELECT id, nid, did, ord, type, queue, due, ivl, factor, reps, lapses, odue, odid, data FROM cards ORDER BY ord'
+    );
+    const reviews = options.includeScheduling
+      ? selectAll<AnkiReview>(ankiDb, 'SELECT id, cid, ease, ivl, factor, time, type FROM revlog ORDER BY id')
+      : [];
+    const mediaNames: Record<string, string> = files['media'] ? JSON.parse(strFromU8(files['media'])) : {};
+    const mediaKeys = new Map(Object.entries(mediaNames).map(([key, name]) => [name, key]));
+
+    const cardsByNote = new Map<number, AnkiCard[]>();
+    for (const card of ankiCards) {
+      cardsByNote.set(card.nid, [...(cardsByNote.get(card.nid) || []), card]);
+    }
+    const existingNoteIds = new Set((await getAllFlashcards()).map(card => card.noteId));
+    const decksByName = new Map((await getAllDecks()).map(deck => [deck.name, deck]));
+    const report: AnkiImportReport = {
+      importedNotes: 0,
+      importedCards: 0,
+      decks: [],
+      duplicateNotes: 0,
+      skippedNotes: 0,
+      skippedCards: 0,
+      unsupportedNoteTypes: [],
+    };
+    const data: ImportedData = { decks: [], cards: [], reviewLogs: [], media: [] };
+    const importedCards = new Map<number, Flashcard>();
+    const now = new Date();
+
+    // Decks are matched by name, so importing into a deck imported before adds to it
+    const getDeckId = (ankiDeckId: number) => {
+      const name = ankiDecks[ankiDeckId]?.name || 'Anki';
+      let deck = decksByName.get(name);
+      if (!deck) {
+        deck = {
+          id: uuidv4(),
+          name,
+          description: '',
+          sourceLanguage: options.sourceLanguage,
+          targetLanguage: options.targetLanguage,
+          color: DECK_COLORS[decksByName.size % DECK_COLORS.length],
+          directions: ['forward'],
+          createdAt: now,
+        };
+        decksByName.set(name, deck);
+        data.decks.push(deck);
+      }
+      if (!report.decks.includes(name)) report.decks.push(name);
+      return deck.id;
+    };
+
+    const getMediaId = async (name: string | undefined) => {
+      const content = name && files[mediaKeys.get(name) ?? ''];
+      if (!name || !content) return undefined;
+      const type = MEDIA_TYPES[name.split('.').pop()?.toLowerCase() || ''] || '';
+      let blob = new Blob([content], { type });
+      if (type.startsWith('image/')) {
+        blob = await downscaleImage(blob).catch(() => blob);
+      }
+      const id = uuidv4();
+      data.media.push({ id, blob });
+      return id;
+    };
+
+    for (const note of notes) {
+      const model = models[note.mid];
+      const isCloze = model?.type === 1;
+      if (!model || (!isCloze && model.flds.length < 2)) {
+        if (model && !report.unsupportedNoteTypes.includes(model.name)) report.unsupportedNoteTypes.push(model.name);
+        report.skippedNotes++;
+        continue;
+      }
+      // Anki's note guid keeps a note from being imported twice
+      const noteId = `anki-${note.guid}`;
+      if (existingNoteIds.has(noteId)) {
+        report.duplicateNotes++;
+        continue;
+      }
+
+      const fields = note.flds.split(FIELD_SEPARATOR);
+      const front = htmlToText(fields[0]);
+      const back = htmlToText(fields[1] || '');
+      const noteCards = cardsByNote.get(note.id) || [];
+      if (!front || (isCloze ? !isClozeText(front) : !back) || noteCards.length === 0) {
+        report.skippedNotes++;
+        continue;
+      }
+
+      const kinds = new Map<AnkiCard, CardKind>();
+      for (const card of noteCards) {
+        if (isCloze) {
+          kinds.set(card, { direction: 'forward', clozeNumber: card.ord + 1 });
+        } else if (card.ord < 2) {
+          kinds.set(card, { direction: card.ord === 0 ? 'forward' : 'reverse' });
+        } else {
+          report.skippedCards++;
+        }
+      }
+      if (kinds.size === 0) {
+        report.skippedNotes++;
+        continue;
+      }
+
+      const directions = [...kinds.values()].map(kind => kind.direction);
+      const studiedDirections: CardDirection[] | undefined = !isCloze && directions.includes('reverse')
+        ? [...new Set(directions)]
+        : undefined;
+      const noteFields = {
+        noteId,
+        front,
+        back,
+        deckId: getDeckId(noteCards[0].odid || noteCards[0].did),
+        tags: parseTags(note.tags),
+        directions: studiedDirections,
+        imageId: await getMediaId(fields.map(field => field.match(IMAGE_PATTERN)?.[1]).find(Boolean)),
+        audioId: await getMediaId(fields.map(field => field.match(SOUND_PATTERN)?.[1]).find(Boolean)),
+      };
+      for (const [ankiCard, kind] of kinds) {
+        const card = createCard(noteFields, kind);
+        if (options.includeScheduling) {
+          Object.assign(card, getSchedule(ankiCard, col.crt * 1000, now));
+        }
+        data.cards.push(card);
+        importedCards.set(ankiCard.id, card);
+      }
+      existingNoteIds.add(noteId);
+      report.importedNotes++;
+    }
+
+    data.reviewLogs = convertReviews(reviews, importedCards, schedulerVersion);
+    const lastReviewDates = new Map(data.reviewLogs.map(log => [log.cardId, log.timestamp]));
+    for (const card of data.cards) {
+      card.lastReviewDate = lastReviewDates.get(card.id);
+    }
+    report.importedCards = data.cards.length;
+
+    await addImportedData(data);
+    return report;
+  } finally {
+    ankiDb.close();
+  }
+}
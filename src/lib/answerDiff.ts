@@ -0,0 +1,122 @@
+// Compares a typed answer with the expected one character by character, so a review can
+// point out exactly what was wrong (a missing accent, two swapped letters, a letter too many)
+// and suggest a grade from how close the answer was.
+
+import type { ReviewDifficulty } from './database';
+
+export type DiffOp =
+  | 'equal'
+  | 'accent' // Same letter with a different or missing accent, e.g. "e" for "é"
+  | 'transpose' // Two neighbouring letters typed the other way round
+  | 'substitute'
+  | 'missing' // Expected letter that was not typed
+  | 'extra'; // Typed letter that was not expected
+
+export interface DiffPart {
+  op: DiffOp;
+  expected: string; // Empty for extra letters
+  typed: string; // Empty for missing letters
+}
+
+export interface AnswerDiff {
+  parts: DiffPart[];
+  isExact: boolean; // Ignoring case and surrounding spaces
+  similarity: number; // 0 (nothing in common) to 1 (exact)
+  suggestedGrade: ReviewDifficulty;
+}
+
+// Accents count as half a mistake: the word was known, only its spelling was not
+const ACCENT_COST = 0.5;
+
+// Answers at least this similar count as typos rather than not knowing the word
+const TYPO_SIMILARITY = 0.8;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+const stripAccents = (char: string) => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const sameLetter = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const sameBaseLetter = (a: string, b: string) => sameLetter(stripAccents(a), stripAccents(b));
+
+function substitutionCost(expected: string, typed: string): number {
+  if (sameLetter(expected, typed)) return 0;
+  return sameBaseLetter(expected, typed) ? ACCENT_COST : 1;
+}
+
+// Optimal string alignment distance (Levenshtein plus transpositions), walked back to
+// find which edit explains each character
+export function diffAnswer(typedAnswer: string, expectedAnswer: string): AnswerDiff {
+  const expected = [...normalize(expectedAnswer)];
+  const typed = [...normalize(typedAnswer)];
+  const rows = expected.length + 1;
+  const cols = typed.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j] + 1,
+        cost[i][j - 1] + 1,
+        cost[i - 1][j - 1] + substitutionCost(expected[i - 1], typed[j - 1])
+      );
+      if (i > 1 && j > 1 && sameLetter(expected[i - 1], typed[j - 2]) && sameLetter(expected[i - 2], typed[j - 1])) {
+        cost[i][j] = Math.min(cost[i][j], cost[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = expected.length;
+  let j = typed.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const substitution = substitutionCost(expected[i - 1], typed[j - 1]);
+      if (cost[i][j] === cost[i - 1][j - 1] + substitution) {
+        const op: DiffOp = substitution === 0 ? 'equal' : substitution === ACCENT_COST ? 'accent' : 'substitute';
+        parts.push({ op, expected: expected[i - 1], typed: typed[j - 1] });
+        i--;
+        j--;
+        continue;
+      }
+      if (
+        i > 1 && j > 1 &&
+        sameLetter(expected[i - 1], typed[j - 2]) && sameLetter(expected[i - 2], typed[j - 1]) &&
+        cost[i][j] === cost[i - 2][j - 2] + 1
+      ) {
+        parts.push({ op: 'transpose', expected: expected[i - 2] + expected[i - 1], typed: typed[j - 2] + typed[j - 1] });
+        i -= 2;
+        j -= 2;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      parts.push({ op: 'missing', expected: expected[i - 1], typed: '' });
+      i--;
+    } else {
+      parts.push({ op: 'extra', expected: '', typed: typed[j - 1] });
+      j--;
+    }
+  }
+  parts.reverse();
+
+  const distance = cost[expected.length][typed.length];
+  const similarity = 1 - distance / Math.max(1, expected.length, typed.length);
+  return {
+    parts,
+    isExact: distance === 0,
+    similarity,
+    suggestedGrade: suggestGrade(parts, similarity),
+  };
+}
+
+// Exact answers are "good" rather than "easy", since how hard recalling them was is not known.
+// Answers that only got accents wrong, or have a small typo, are "hard"; anything else is "again".
+function suggestGrade(parts: DiffPart[], similarity: number): ReviewDifficulty {
+  const mistakes = parts.filter(part => part.op !== 'equal');
+  if (mistakes.length === 0) return 'good';
+  if (mistakes.every(part => part.op === 'accent') || similarity >= TYPO_SIMILARITY) return 'hard';
+  return 'again';
+}
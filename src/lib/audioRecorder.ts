@@ -0,0 +1,92 @@
+// Records the learner's or a teacher's own pronunciation of a card from the microphone,
+// and plays recordings back in place of the synthesized voice.
+
+import type { SpeakOptions } from './speech';
+
+export const MAX_RECORDING_SECONDS = 15;
+
+export class AudioRecorder {
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  // Rejects with an Error whose message is one of 'not-supported', 'not-allowed' or 'failed'
+  async start(): Promise<void> {
+    if (!AudioRecorder.isSupported()) throw new Error('not-supported');
+    this.cancel();
+    try {
+      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      const denied = error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError');
+      throw new Error(denied ? 'not-allowed' : 'failed');
+    }
+    this.chunks = [];
+    this.recorder = new MediaRecorder(this.stream);
+    this.recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+    this.recorder.start();
+  }
+
+  // Resolves with the recording, in whichever format the browser records
+  stop(): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      const recorder = this.recorder;
+      if (!recorder || recorder.state === 'inactive') {
+        reject(new Error('failed'));
+        return;
+      }
+      recorder.onstop = () => {
+        const recording = new Blob(this.chunks, { type: recorder.mimeType || 'audio/webm' });
+        this.release();
+        resolve(recording);
+      };
+      recorder.stop();
+    });
+  }
+
+  // Stops without keeping what was recorded
+  cancel() {
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.release();
+  }
+
+  // Turns the microphone off, which also removes the browser's recording indicator
+  private release() {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.recorder = null;
+    this.chunks = [];
+  }
+}
+
+class RecordingPlayer {
+  private audio: HTMLAudioElement | null = null;
+
+  async play(recording: Blob, options: SpeakOptions = {}) {
+    this.stop();
+    const url = URL.createObjectURL(recording);
+    const audio = new Audio(url);
+    audio.playbackRate = options.rate ?? 1;
+    audio.onended = () => URL.revokeObjectURL(url);
+    this.audio = audio;
+    await audio.play();
+  }
+
+  stop() {
+    if (this.audio) {
+      this.audio.pause();
+      URL.revokeObjectURL(this.audio.src);
+      this.audio = null;
+    }
+  }
+}
+
+export const recordingPlayer = new RecordingPlayer();
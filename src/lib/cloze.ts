@@ -0,0 +1,65 @@
+// Cloze deletions: a sentence in which words are marked to be hidden, Anki style,
+// e.g. "Je bois {{c1::du café}} le {{c2::matin::moment of the day}}".
+// Each number becomes its own card that hides the words with that number; an optional
+// hint after a second "::" is shown in place of the blank.
+
+import type { Flashcard } from './database';
+
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+export interface ClozePart {
+  text: string;
+  // Plain text, the hidden words of the card being studied, or words of another cloze shown as is
+  kind: 'text' | 'cloze' | 'other';
+  hint?: string;
+}
+
+export function isClozeText(text: string): boolean {
+  return getClozeNumbers(text).length > 0;
+}
+
+// Cloze numbers used in the text, in increasing order
+export function getClozeNumbers(text: string): number[] {
+  const numbers = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const number = Number(match[1]);
+    if (number > 0) numbers.add(number);
+  }
+  return [...numbers].sort((a, b) => a - b);
+}
+
+export function parseCloze(text: string, number: number): ClozePart[] {
+  const parts: ClozePart[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    if (match.index! > lastIndex) {
+      parts.push({ text: text.slice(lastIndex, match.index), kind: 'text' });
+    }
+    parts.push({ text: match[2], kind: Number(match[1]) === number ? 'cloze' : 'other', hint: match[3] });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    parts.push({ text: text.slice(lastIndex), kind: 'text' });
+  }
+  return parts;
+}
+
+// The sentence with every marker replaced by its words, e.g. for reading it out
+export function getClozeFullText(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_match, _number, words) => words);
+}
+
+// Words hidden by the given cloze. A number used more than once has its words joined by
+// spaces, in the order they appear, so they can be typed as the answer
+export function getClozeAnswer(text: string, number: number): string {
+  return parseCloze(text, number)
+    .filter(part => part.kind === 'cloze')
+    .map(part => part.text)
+    .join(' ');
+}
+
+export const isClozeCard = (card: Flashcard) => card.clozeNumber !== undefined;
+
+// What is read out for a card: its front, or the whole sentence of a cloze
+export const getSpokenText = (card: Flashcard) =>
+  isClozeCard(card) ? getClozeFullText(card.front) : card.front;
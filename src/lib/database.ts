@@ -1,10 +1,69 @@
 import { openDB, IDBPDatabase } from 'idb';
 import { v4 as uuidv4 } from 'uuid';
+import { Scheduler, addDays, addMinutes, getScheduler } from './scheduler';
+import { calculateSM2Review } from './sm2Scheduler';
+import './fsrsScheduler';
+import { MAX_INTERVAL } from './fsrs';
+import { getFuzzRange, pickInterval } from './loadBalancer';
+import type { SupportedLanguage } from './speech';
+import { getClozeNumbers, isClozeText } from './cloze';
+import { base64ToBlob, blobToBase64 } from './media';
+
+// Forward cards ask for the translation of the front, reverse cards for the front from its translation
+export type CardDirection = 'forward' | 'reverse';
+
+// Ways a deck, or a single word, can be studied; labels are under deck.directions.<value>
+export const DIRECTION_OPTIONS: { value: string; directions: CardDirection[] }[] = [
+  { value: 'forward', directions: ['forward'] },
+  { value: 'reverse', directions: ['reverse'] },
+  { value: 'both', directions: ['forward', 'reverse'] },
+];
+
+export const getDirectionsValue = (directions: CardDirection[]) =>
+  directions.length > 1 ? 'both' : directions[0];
+
+export const getDirectionsFromValue = (value: string): CardDirection[] =>
+  DIRECTION_OPTIONS.find(option => option.value === value)?.directions || ['forward'];
+
+// Parts of speech a word can be given; also recognised as tags, e.g. a card tagged "verb"
+export const PARTS_OF_SPEECH = [
+  'noun',
+  'verb',
+  'adjective',
+  'adverb',
+  'pronoun',
+  'preposition',
+  'conjunction',
+  'interjection',
+  'phrase',
+];
+
+export const GENDERS = ['masculine', 'feminine'] as const;
+
+export type Gender = typeof GENDERS[number];
 
 export interface Flashcard {
   id: string;
-  french: string;
-  english: string;
+  // The cards of one word, one per direction, share their content but are scheduled separately
+  noteId: string;
+  direction: CardDirection;
+  // Set on cloze cards, whose front is a sentence with {{c1::…}} markers: the card hides the
+  // words of this cloze. A sentence gets one card per cloze number instead of one per direction.
+  clozeNumber?: number;
+  front: string; // Word or phrase in the deck's source language
+  back: string; // Translation in the deck's target language
+  deckId: string;
+  tags: string[]; // Lowercase topic labels, e.g. ['food', 'verbs']
+  directions?: CardDirection[]; // Directions studied for this word, overriding the deck's
+  // Optional details about the word, shown with the answer
+  example?: string; // Sentence using the word, in the source language
+  exampleTranslation?: string;
+  notes?: string;
+  partOfSpeech?: string; // One of PARTS_OF_SPEECH
+  gender?: Gender;
+  plural?: string;
+  imageId?: string; // Picture shown with the answer, kept in the media store
+  audioId?: string; // Recorded pronunciation of the front, played instead of the synthesized voice
   nextReviewDate: Date;
   interval: number; // In days for review cards, in minutes for learning cards
   ease: number;
@@ -14,57 +73,262 @@ export interface Flashcard {
   cardState: 'new' | 'learning' | 'review' | 'relearning';
   currentLearningStep: number; // Current position in learning steps array
   lapses: number; // Number of times card has been forgotten
+  lastReviewDate?: Date;
+  // FSRS memory state, only present once the card has been scheduled with FSRS
+  stability?: number; // Days until recall probability drops to 90%
+  difficulty?: number; // 1 (easiest) to 10 (hardest)
+  // Cards taken out of rotation keep their schedule and come back where they left off
+  suspended?: boolean; // Excluded from study until unsuspended
+  buriedUntil?: Date; // Excluded from study until this moment, the start of the next study day
+}
+
+export interface Deck {
+  id: string;
+  name: string;
+  description: string;
+  sourceLanguage: SupportedLanguage; // Language being learned, shown on the front of the card
+  targetLanguage: SupportedLanguage; // Language of the answer on the back
+  color: string; // Hex colour used to tell decks apart
+  directions: CardDirection[]; // Directions its cards are studied in unless a card says otherwise
+  createdAt: Date;
+}
+
+// Card counts for one deck, as shown on the dashboard
+export interface DeckCounts {
+  deckId: string;
+  totalCards: number;
+  newCards: number; // Cards never studied
+  dueToday: number; // Cards that would be shown now, daily limits applied
+}
+
+// Narrows which cards a query returns; cards with any of the tags match
+export interface CardFilter {
+  deckId?: string;
+  tags?: string[];
+}
+
+export const DEFAULT_DECK_ID = 'default';
+
+export const DECK_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['en', 'es', 'fr'];
+
+const isSupportedLanguage = (value: unknown): value is SupportedLanguage =>
+  SUPPORTED_LANGUAGES.includes(value as SupportedLanguage);
+
+// Before decks existed, cards were studied in the practice language chosen in the voice
+// settings and translated into the interface language, so the default deck starts from those
+function getInitialLanguagePair(): Pick<Deck, 'sourceLanguage' | 'targetLanguage'> {
+  let sourceLanguage: SupportedLanguage = 'fr';
+  let targetLanguage: SupportedLanguage = 'en';
+  try {
+    const practiceLanguage = JSON.parse(localStorage.getItem('voiceSettings') || '{}').practiceLanguage;
+    const interfaceLanguage = localStorage.getItem('language');
+    if (isSupportedLanguage(practiceLanguage)) sourceLanguage = practiceLanguage;
+    if (isSupportedLanguage(interfaceLanguage)) targetLanguage = interfaceLanguage;
+  } catch (error) {
+    console.error('Failed to read language settings:', error);
+  }
+  if (targetLanguage === sourceLanguage) {
+    targetLanguage = sourceLanguage === 'en' ? 'fr' : 'en';
+  }
+  return { sourceLanguage, targetLanguage };
+}
+
+// Every card belongs to a deck; cards created before decks existed are moved into this one
+const createDefaultDeck = (): Deck => ({
+  id: DEFAULT_DECK_ID,
+  name: 'My Cards',
+  description: '',
+  ...getInitialLanguagePair(),
+  color: DECK_COLORS[0],
+  directions: ['forward'],
+  createdAt: new Date(),
+});
+
+// Decks saved before directions existed were only studied forwards
+const withDeckDefaults = (deck: Deck): Deck => ({ directions: ['forward'], ...deck });
+
+export type ReviewDifficulty = 'again' | 'hard' | 'good' | 'easy';
+
+// One entry per answer given during review, never overwritten
+export interface ReviewLog {
+  id: string;
+  cardId: string;
+  timestamp: Date;
+  difficulty: ReviewDifficulty; // Button pressed
+  previousInterval: number;
+  newInterval: number;
+  previousEase: number;
+  newEase: number;
+  previousState: Flashcard['cardState'];
+  newState: Flashcard['cardState'];
+  timeTaken: number; // Milliseconds from showing the card to answering
 }
 
 export interface StudyStats {
   totalCards: number;
-  reviewedToday: number;
+  reviewedToday: number; // Distinct cards answered today
+  newCardsToday: number; // New cards seen for the first time today
+  againToday: number; // Answers rated "again" today
+  timeSpentToday: number; // Milliseconds spent answering today
+  newCardsRemaining: number; // New cards that can still be introduced today
+  reviewsRemaining: number; // Review cards that can still be answered today
   currentStreak: number;
+  longestStreak: number;
   dueToday: number;
   masteryPercentage: number;
   lastStudyDate?: Date;
 }
 
+export interface DailyLimits {
+  newCardsRemaining: number;
+  reviewsRemaining: number;
+}
+
+// Persisted in the stats store; study done before the review log existed is only known from here
+interface StreakRecord {
+  id: 'streak';
+  lastStudyDate?: Date;
+  longestStreak: number;
+}
+
 // Anki-style learning configuration
 export interface LearningConfig {
+  algorithm: string; // Id of a registered scheduler, e.g. 'sm2' or 'fsrs'
+  desiredRetention: number; // FSRS target recall probability, e.g. 0.9
   learningSteps: number[]; // Steps in minutes, e.g., [1, 10, 30]
   relearningSteps: number[]; // Steps for relearning, e.g., [10]
   graduatingInterval: number; // Days for first review after learning (default: 1)
   easyInterval: number; // Days for easy button in learning (default: 4)
   newCardsPerDay: number; // Limit for new cards per day
+  maxReviewsPerDay: number; // Limit for review cards per day
+  dayRolloverHour: number; // Hour at which a new study day starts (default: 4)
+  leechThreshold: number; // Lapses after which a card counts as a leech
+  leechAction: 'tag' | 'suspend'; // Suspend leeches as well as tagging them
+  loadBalancing: boolean; // Prefer the least busy day within the fuzz range
+  easyDays: number[]; // Weekdays (0 = Sunday) that get far fewer reviews
 }
 
-const DEFAULT_LEARNING_CONFIG: LearningConfig = {
+export const DEFAULT_LEARNING_CONFIG: LearningConfig = {
+  algorithm: 'sm2',
+  desiredRetention: 0.9, // 90% chance of remembering a card when it is due
   learningSteps: [1, 10, 30], // 1 min, 10 min, 30 min
   relearningSteps: [10], // 10 min
   graduatingInterval: 1, // 1 day
   easyInterval: 4, // 4 days
-  newCardsPerDay: 20
+  newCardsPerDay: 20,
+  maxReviewsPerDay: 200,
+  dayRolloverHour: 4, // 4 AM, so late-night sessions count for the previous day
+  leechThreshold: 8,
+  leechAction: 'tag',
+  loadBalancing: true,
+  easyDays: [],
 };
 
+// Tag added to cards that keep being forgotten
+export const LEECH_TAG = 'leech';
+
+// Outcome of answering a card
+export interface ReviewResult {
+  log: ReviewLog;
+  card: Flashcard; // Card as saved after the answer
+  isLeech: boolean; // The answer made the card a leech
+  buriedSiblings: Flashcard[]; // Other directions of the same word buried until tomorrow, as they were before
+  previousStudyDate?: Date; // Last study date of the streak record before the answer, restored by undo
+}
+
+// Like Anki, a card is flagged when it reaches the threshold and again every
+// half threshold after that, so ignored leeches keep being pointed out
+function isLeechLapse(lapses: number, threshold: number): boolean {
+  if (threshold <= 0 || lapses < threshold) return false;
+  return (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+}
+
 const DB_NAME = 'FlashcardsDB';
-const DB_VERSION = 2; // Increment version for schema changes
+const DB_VERSION = 8; // Increment version for schema changes
 const CARDS_STORE = 'flashcards';
 const STATS_STORE = 'stats';
 const CONFIG_STORE = 'config';
+const REVIEW_LOG_STORE = 'reviewLog';
+const DECKS_STORE = 'decks';
+const MEDIA_STORE = 'media';
+
+interface MediaItem {
+  id: string;
+  blob: Blob;
+  createdAt: Date;
+}
+
+// Media as written to backups, which have to be plain JSON
+interface ExportedMedia {
+  id: string;
+  type: string;
+  data: string; // Base64
+}
 
 let db: IDBPDatabase;
 
 export async function initDB() {
   if (!db) {
     db = await openDB(DB_NAME, DB_VERSION, {
-      upgrade(db, oldVersion) {
+      upgrade(db, oldVersion, _newVersion, transaction) {
         if (!db.objectStoreNames.contains(CARDS_STORE)) {
           const cardStore = db.createObjectStore(CARDS_STORE, { keyPath: 'id' });
           cardStore.createIndex('nextReviewDate', 'nextReviewDate');
           cardStore.createIndex('cardState', 'cardState');
         }
+        const cardStore = transaction.objectStore(CARDS_STORE);
+        if (!cardStore.indexNames.contains('deckId')) {
+          cardStore.createIndex('deckId', 'deckId');
+        }
+        if (!cardStore.indexNames.contains('tags')) {
+          // One index entry per tag, so cards can be looked up by any of their tags
+          cardStore.createIndex('tags', 'tags', { multiEntry: true });
+        }
+        if (!cardStore.indexNames.contains('noteId')) {
+          cardStore.createIndex('noteId', 'noteId');
+        }
         if (!db.objectStoreNames.contains(STATS_STORE)) {
           db.createObjectStore(STATS_STORE, { keyPath: 'id' });
         }
         if (!db.objectStoreNames.contains(CONFIG_STORE)) {
           db.createObjectStore(CONFIG_STORE, { keyPath: 'key' });
         }
+        if (!db.objectStoreNames.contains(REVIEW_LOG_STORE)) {
+          const logStore = db.createObjectStore(REVIEW_LOG_STORE, { keyPath: 'id' });
+          logStore.createIndex('cardId', 'cardId');
+          logStore.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(DECKS_STORE)) {
+          db.createObjectStore(DECKS_STORE, { keyPath: 'id' });
+          transaction.objectStore(DECKS_STORE).put(createDefaultDeck());
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+        }
+
+        // Cards saved by older versions get the fields added since, e.g. cards created
+        // before decks existed go into the default deck, french/english became front/back
+        // and every card became the forward card of its own note. Runs inside the upgrade
+        // transaction so no card is ever read without them.
+        if (oldVersion > 0 && oldVersion < DB_VERSION) {
+          cardStore.openCursor().then(async function upgradeCards(cursor) {
+            while (cursor) {
+              const { french, english, ...card } = cursor.value;
+              await cursor.update({
+                deckId: DEFAULT_DECK_ID,
+                tags: [],
+                front: french,
+                back: english,
+                noteId: card.id,
+                direction: 'forward',
+                ...card,
+              });
+              cursor = await cursor.continue();
+            }
+          });
+        }
 
         // Migrate existing cards if upgrading from version 1
         if (oldVersion === 1) {
@@ -107,20 +371,100 @@ export async function initDB() {
 export async function getLearningConfig(): Promise<LearningConfig> {
   await initDB();
   const config = await db.get(CONFIG_STORE, 'learning');
-  return config ? config.value : DEFAULT_LEARNING_CONFIG;
+  // Merge with defaults so configs saved by older versions gain new settings
+  return config ? { ...DEFAULT_LEARNING_CONFIG, ...config.value } : DEFAULT_LEARNING_CONFIG;
 }
 
 export async function updateLearningConfig(config: LearningConfig): Promise<void> {
   await initDB();
   await db.put(CONFIG_STORE, { key: 'learning', value: config });
+  const scheduler = getScheduler(config.algorithm);
+  if (scheduler.migrateCard) {
+    await migrateCardsToScheduler(scheduler);
+  }
 }
 
-export async function addFlashcard(french: string, english: string): Promise<Flashcard> {
-  await initDB();
-  const card: Flashcard = {
+async function migrateCardsToScheduler(scheduler: Scheduler): Promise<number> {
+  const tx = db.transaction([CARDS_STORE], 'readwrite');
+  const store = tx.objectStore(CARDS_STORE);
+  let migratedCount = 0;
+
+  for (const card of await store.getAll() as Flashcard[]) {
+    const migratedCard = scheduler.migrateCard?.(card);
+    if (migratedCard) {
+      await store.put(migratedCard);
+      migratedCount++;
+    }
+  }
+
+  await tx.done;
+  return migratedCount;
+}
+
+// Tags are typed as free text: "Food, travel verbs" -> ['food', 'travel', 'verbs']
+export function parseTags(input: string): string[] {
+  return normalizeTags(input.split(/[\s,]+/));
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function matchesTags(card: Flashcard, tags: string[]): boolean {
+  return tags.length === 0 || tags.some(tag => card.tags.includes(tag));
+}
+
+export type NoteDetails = Pick<Flashcard, 'example' | 'exampleTranslation' | 'notes' | 'partOfSpeech' | 'gender' | 'plural'>;
+
+export const NOTE_DETAIL_FIELDS: (keyof NoteDetails)[] = [
+  'example',
+  'exampleTranslation',
+  'notes',
+  'partOfSpeech',
+  'gender',
+  'plural',
+];
+
+// Trims the details and drops empty or unknown values. Every field is present in the result,
+// possibly undefined, so spreading it over a card clears the details that were removed.
+export function cleanNoteDetails(details: Partial<Record<keyof NoteDetails, unknown>>): NoteDetails {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim()) || undefined;
+  const partOfSpeech = text(details.partOfSpeech)?.toLowerCase();
+  return {
+    example: text(details.example),
+    exampleTranslation: text(details.exampleTranslation),
+    notes: text(details.notes),
+    partOfSpeech: partOfSpeech && PARTS_OF_SPEECH.includes(partOfSpeech) ? partOfSpeech : undefined,
+    gender: GENDERS.find(gender => gender === details.gender),
+    plural: text(details.plural),
+  };
+}
+
+// Fields every card of a note has in common
+export type NoteFields = Pick<Flashcard, 'noteId' | 'front' | 'back' | 'deckId' | 'tags' | 'directions' | 'imageId' | 'audioId'> &
+  NoteDetails;
+
+// Which card of a note: a direction, or a cloze number for cloze sentences
+export type CardKind = Pick<Flashcard, 'direction' | 'clozeNumber'>;
+
+const sameKind = (card: CardKind, kind: CardKind) =>
+  card.direction === kind.direction && card.clozeNumber === kind.clozeNumber;
+
+// A new card of the note, to be scheduled from scratch
+export function createCard(note: NoteFields, { direction, clozeNumber }: CardKind): Flashcard {
+  return {
+    noteId: note.noteId,
+    front: note.front,
+    back: note.back,
+    deckId: note.deckId,
+    tags: note.tags,
+    directions: note.directions,
+    imageId: note.imageId,
+    audioId: note.audioId,
+    ...cleanNoteDetails(note),
     id: uuidv4(),
-    french,
-    english,
+    direction,
+    ...(clozeNumber !== undefined && { clozeNumber }),
     nextReviewDate: new Date(), // New cards are immediately available
     interval: 0, // Will be set based on learning steps
     ease: 2.5,
@@ -130,9 +474,52 @@ export async function addFlashcard(french: string, english: string): Promise<Fla
     currentLearningStep: 0,
     lapses: 0,
   };
-  
-  await db.add(CARDS_STORE, card);
-  return card;
+}
+
+// Directions a card's word is studied in; cards of other directions are kept but never shown
+export function getCardDirections(card: Flashcard, deck?: Deck): CardDirection[] {
+  return card.directions ?? deck?.directions ?? ['forward'];
+}
+
+// Cloze cards are always studied, whatever the directions
+export function isDirectionStudied(card: Flashcard, deck?: Deck): boolean {
+  return card.clozeNumber !== undefined || getCardDirections(card, deck).includes(card.direction);
+}
+
+// Cards a note should have: one per cloze number for a cloze sentence, otherwise one per studied direction
+function getNoteCardKinds(note: NoteFields, deck?: Deck): CardKind[] {
+  if (isClozeText(note.front)) {
+    return getClozeNumbers(note.front).map(clozeNumber => ({ direction: 'forward', clozeNumber }));
+  }
+  return (note.directions ?? deck?.directions ?? ['forward']).map(direction => ({ direction }));
+}
+
+// Cards that no longer fit the note's text: cloze cards whose number is gone from the sentence,
+// and cards of the other kind when a word becomes a cloze sentence or the other way round
+function isObsoleteCard(card: Flashcard): boolean {
+  if (!isClozeText(card.front)) return card.clozeNumber !== undefined;
+  return card.clozeNumber === undefined || !getClozeNumbers(card.front).includes(card.clozeNumber);
+}
+
+// Returns the first card of the new note: the forward card, or the first cloze of a sentence
+export async function addFlashcard(
+  front: string,
+  back: string,
+  deckId = DEFAULT_DECK_ID,
+  tags: string[] = [],
+  details: NoteDetails = {}
+): Promise<Flashcard> {
+  await initDB();
+  const deck = await getDeck(deckId);
+  const note: NoteFields = { noteId: uuidv4(), front, back, deckId, tags: normalizeTags(tags), ...details };
+  const cards = getNoteCardKinds(note, deck).map(kind => createCard(note, kind));
+
+  const tx = db.transaction([CARDS_STORE], 'readwrite');
+  for (const card of cards) {
+    await tx.objectStore(CARDS_STORE).add(card);
+  }
+  await tx.done;
+  return cards[0];
 }
 
 // Alias for addFlashcard to match component expectations
@@ -146,237 +533,723 @@ export async function getAllFlashcards(): Promise<Flashcard[]> {
 // Alias for getAllFlashcards to match component expectations
 export const getAllCards = getAllFlashcards;
 
-export async function getDueFlashcards(): Promise<Flashcard[]> {
+export async function getDeckFlashcards(deckId: string): Promise<Flashcard[]> {
+  await initDB();
+  return await db.getAllFromIndex(CARDS_STORE, 'deckId', deckId);
+}
+
+export async function getTaggedFlashcards(tags: string[]): Promise<Flashcard[]> {
+  await initDB();
+  const cards = new Map<string, Flashcard>();
+  for (const tag of normalizeTags(tags)) {
+    for (const card of await db.getAllFromIndex(CARDS_STORE, 'tags', tag) as Flashcard[]) {
+      cards.set(card.id, card);
+    }
+  }
+  return [...cards.values()];
+}
+
+export async function getFilteredFlashcards(filter: CardFilter = {}): Promise<Flashcard[]> {
+  const tags = normalizeTags(filter.tags || []);
+  if (tags.length > 0) {
+    const taggedCards = await getTaggedFlashcards(tags);
+    return filter.deckId ? taggedCards.filter(card => card.deckId === filter.deckId) : taggedCards;
+  }
+  return filter.deckId ? await getDeckFlashcards(filter.deckId) : await getAllFlashcards();
+}
+
+// Every tag used by at least one card, in alphabetical order
+export async function getAllTags(): Promise<string[]> {
+  await initDB();
+  const tags: string[] = [];
+  let cursor = await db.transaction(CARDS_STORE).store.index('tags').openKeyCursor(null, 'nextunique');
+  while (cursor) {
+    tags.push(String(cursor.key));
+    cursor = await cursor.continue();
+  }
+  return tags;
+}
+
+// Pass a filter to study only some cards, e.g. one deck; daily limits are shared by all cards
+export async function getDueFlashcards(filter: CardFilter = {}): Promise<Flashcard[]> {
   await initDB();
   const now = new Date();
-  const allCards = await db.getAll(CARDS_STORE);
+  const allCards = await getFilteredFlashcards(filter);
+  const limits = await getDailyLimits();
+  const deckById = await getDeckMap();
   
   // Get all cards that are due for review (including learning, relearning, and review states)
   const dueCards = allCards.filter(card => {
     const reviewDate = new Date(card.nextReviewDate);
-    return reviewDate <= now;
+    return reviewDate <= now && isCardActive(card, now, deckById.get(card.deckId));
   });
+  const limitedCards = applyDailyLimits(dueCards, limits);
   
   console.log('Due cards analysis:', {
     total: allCards.length,
     due: dueCards.length,
+    limits,
     breakdown: {
-      new: dueCards.filter(c => c.cardState === 'new').length,
-      learning: dueCards.filter(c => c.cardState === 'learning').length,
-      relearning: dueCards.filter(c => c.cardState === 'relearning').length,
-      review: dueCards.filter(c => c.cardState === 'review').length
+      new: limitedCards.filter(c => c.cardState === 'new').length,
+      learning: limitedCards.filter(c => c.cardState === 'learning').length,
+      relearning: limitedCards.filter(c => c.cardState === 'relearning').length,
+      review: limitedCards.filter(c => c.cardState === 'review').length
     }
   });
   
-  return dueCards;
+  return limitedCards;
+}
+
+// Learning cards are never held back; reviews and new cards are capped per day
+function applyDailyLimits(dueCards: Flashcard[], limits: DailyLimits): Flashcard[] {
+  const byDate = (a: Date, b: Date) => new Date(a).getTime() - new Date(b).getTime();
+  const learningCards = dueCards.filter(card => card.cardState === 'learning' || card.cardState === 'relearning');
+  const reviewCards = dueCards
+    .filter(card => card.cardState === 'review')
+    .sort((a, b) => byDate(a.nextReviewDate, b.nextReviewDate))
+    .slice(0, limits.reviewsRemaining);
+  // Oldest cards are introduced first so the same ones stay queued across reloads
+  const newCards = dueCards
+    .filter(card => card.cardState === 'new')
+    .sort((a, b) => byDate(a.createdAt, b.createdAt))
+    .slice(0, limits.newCardsRemaining);
+  return [...learningCards, ...reviewCards, ...newCards];
+}
+
+function calculateDailyLimits(todayLogs: ReviewLog[], config: LearningConfig): DailyLimits {
+  const newCardsSeen = new Set(todayLogs.filter(log => log.previousState === 'new').map(log => log.cardId)).size;
+  const reviewsDone = new Set(todayLogs.filter(log => log.previousState === 'review').map(log => log.cardId)).size;
+  return {
+    newCardsRemaining: Math.max(0, config.newCardsPerDay - newCardsSeen),
+    reviewsRemaining: Math.max(0, config.maxReviewsPerDay - reviewsDone),
+  };
+}
+
+export async function getDailyLimits(): Promise<DailyLimits> {
+  await initDB();
+  const config = await getLearningConfig();
+  const todayLogs: ReviewLog[] = await db.getAllFromIndex(
+    REVIEW_LOG_STORE,
+    'timestamp',
+    IDBKeyRange.lowerBound(getStudyDayStart(new Date(), config.dayRolloverHour))
+  );
+  return calculateDailyLimits(todayLogs, config);
 }
 
 // Alias for getDueFlashcards to match component expectations
 export const getDueCards = getDueFlashcards;
 
+// Whether the card can be studied, i.e. it is neither suspended nor buried.
+// Pass the card's deck to also rule out directions that are not studied.
+export function isCardActive(card: Flashcard, now = new Date(), deck?: Deck): boolean {
+  if (deck && !isDirectionStudied(card, deck)) return false;
+  return !card.suspended && !(card.buriedUntil && new Date(card.buriedUntil) > now);
+}
+
+export function isCardBuried(card: Flashcard, now = new Date()): boolean {
+  return !!card.buriedUntil && new Date(card.buriedUntil) > now;
+}
+
+export async function setCardSuspended(id: string, suspended: boolean): Promise<void> {
+  await initDB();
+  const card: Flashcard | undefined = await db.get(CARDS_STORE, id);
+  if (card) {
+    await db.put(CARDS_STORE, { ...card, suspended });
+  }
+}
+
+// Hides the card until the next study day starts
+export async function buryCard(id: string): Promise<void> {
+  await initDB();
+  const card: Flashcard | undefined = await db.get(CARDS_STORE, id);
+  if (card) {
+    const config = await getLearningConfig();
+    const buriedUntil = addMinutes(getStudyDayStart(new Date(), config.dayRolloverHour), 24 * 60);
+    await db.put(CARDS_STORE, { ...card, buriedUntil });
+  }
+}
+
+export async function unburyCard(id: string): Promise<void> {
+  await initDB();
+  const card: Flashcard | undefined = await db.get(CARDS_STORE, id);
+  if (card) {
+    await db.put(CARDS_STORE, { ...card, buriedUntil: undefined });
+  }
+}
+
+// Returns the number of cards brought back into rotation
+export async function unsuspendAllCards(): Promise<number> {
+  await initDB();
+  const tx = db.transaction([CARDS_STORE], 'readwrite');
+  let count = 0;
+  for (const card of await tx.objectStore(CARDS_STORE).getAll() as Flashcard[]) {
+    if (card.suspended) {
+      await tx.objectStore(CARDS_STORE).put({ ...card, suspended: false });
+      count++;
+    }
+  }
+  await tx.done;
+  return count;
+}
+
+// Returns the number of cards brought back into rotation
+export async function unburyAllCards(): Promise<number> {
+  await initDB();
+  const tx = db.transaction([CARDS_STORE], 'readwrite');
+  const now = new Date();
+  let count = 0;
+  for (const card of await tx.objectStore(CARDS_STORE).getAll() as Flashcard[]) {
+    if (card.buriedUntil) {
+      await tx.objectStore(CARDS_STORE).put({ ...card, buriedUntil: undefined });
+      if (isCardBuried(card, now)) count++;
+    }
+  }
+  await tx.done;
+  return count;
+}
+
 export async function updateFlashcard(card: Flashcard): Promise<void> {
   await initDB();
   await db.put(CARDS_STORE, card);
 }
 
-export async function updateCard(id: string, french: string, english: string): Promise<void> {
+// Edits the word, i.e. every direction of it; each card keeps its own schedule.
+// Editing a cloze sentence adds cards for new cloze numbers and deletes those of removed ones.
+// Details are replaced when given, so leaving one out clears it.
+export async function updateCard(
+  id: string,
+  front: string,
+  back: string,
+  tags?: string[],
+  details?: NoteDetails
+): Promise<void> {
   await initDB();
-  const existingCard = await db.get(CARDS_STORE, id);
+  const existingCard: Flashcard | undefined = await db.get(CARDS_STORE, id);
   if (existingCard) {
-    const updatedCard = { ...existingCard, french, english };
-    await db.put(CARDS_STORE, updatedCard);
+    const cards = (await getNoteFlashcards(existingCard.noteId)).map(card => ({
+      ...card,
+      ...(details && cleanNoteDetails(details)),
+      front,
+      back,
+      tags: tags ? normalizeTags(tags) : card.tags,
+    }));
+    await saveNoteCards(cards, await getDeck(existingCard.deckId));
+  }
+}
+
+export async function getNoteFlashcards(noteId: string): Promise<Flashcard[]> {
+  await initDB();
+  return await db.getAllFromIndex(CARDS_STORE, 'noteId', noteId);
+}
+
+// Pass undefined to go back to the deck's directions
+export async function setNoteDirections(noteId: string, directions: CardDirection[] | undefined): Promise<void> {
+  await initDB();
+  const cards = (await getNoteFlashcards(noteId)).map(card => ({ ...card, directions }));
+  if (cards.length === 0) return;
+  await saveNoteCards(cards, await getDeck(cards[0].deckId));
+}
+
+// Kinds of card the note should have but has none for yet
+function getMissingCardKinds(cards: Flashcard[], deck?: Deck): CardKind[] {
+  const kept = cards.filter(card => !isObsoleteCard(card));
+  return getNoteCardKinds(cards[0], deck).filter(kind => !kept.some(card => sameKind(card, kind)));
+}
+
+// Saves the cards of a note and creates a card for each studied direction or cloze it has none for yet.
+// Cards of directions no longer studied are kept, so their progress is there if they come back;
+// obsolete cloze cards are deleted with their review history, as their text is gone.
+async function saveNoteCards(cards: Flashcard[], deck?: Deck): Promise<number> {
+  const missingKinds = getMissingCardKinds(cards, deck);
+  const tx = db.transaction([CARDS_STORE, REVIEW_LOG_STORE], 'readwrite');
+  for (const card of cards) {
+    if (isObsoleteCard(card)) {
+      await tx.objectStore(CARDS_STORE).delete(card.id);
+      for (const logId of await tx.objectStore(REVIEW_LOG_STORE).index('cardId').getAllKeys(card.id)) {
+        await tx.objectStore(REVIEW_LOG_STORE).delete(logId);
+      }
+    } else {
+      await tx.objectStore(CARDS_STORE).put(card);
+    }
+  }
+  for (const kind of missingKinds) {
+    await tx.objectStore(CARDS_STORE).add(createCard(cards[0], kind));
   }
+  await tx.done;
+  return missingKinds.length;
 }
 
+// Media fields of a card, i.e. ids in the media store
+type MediaField = 'imageId' | 'audioId';
+
+const MEDIA_FIELDS: MediaField[] = ['imageId', 'audioId'];
+
+// Ids of the images and recordings of the given cards
+const getMediaIds = (cards: Flashcard[]) =>
+  [...new Set(cards.flatMap(card => MEDIA_FIELDS.map(field => card[field])))].filter((id): id is string => !!id);
+
+// Deletes every direction of a word together with their review history, image and recording
+export async function deleteNote(noteId: string): Promise<void> {
+  const cards = await getNoteFlashcards(noteId);
+  for (const card of cards) {
+    await deleteFlashcard(card.id);
+  }
+  for (const mediaId of getMediaIds(cards)) {
+    await db.delete(MEDIA_STORE, mediaId);
+  }
+}
+
+export async function getMedia(id: string): Promise<Blob | undefined> {
+  await initDB();
+  const media: MediaItem | undefined = await db.get(MEDIA_STORE, id);
+  return media?.blob;
+}
+
+// Replaces the picture or recording of every card of the note; pass null to remove it.
+// Media belong to a single note, so the one replaced is deleted.
+async function setNoteMedia(noteId: string, field: MediaField, media: Blob | null): Promise<void> {
+  await initDB();
+  const mediaId = media ? uuidv4() : undefined;
+  const tx = db.transaction([CARDS_STORE, MEDIA_STORE], 'readwrite');
+  if (media) {
+    await tx.objectStore(MEDIA_STORE).add({ id: mediaId, blob: media, createdAt: new Date() });
+  }
+  for (const card of await tx.objectStore(CARDS_STORE).index('noteId').getAll(noteId) as Flashcard[]) {
+    if (card[field]) await tx.objectStore(MEDIA_STORE).delete(card[field]!);
+    await tx.objectStore(CARDS_STORE).put({ ...card, [field]: mediaId });
+  }
+  await tx.done;
+}
+
+export const setNoteImage = (noteId: string, image: Blob | null) => setNoteMedia(noteId, 'imageId', image);
+
+export const setNoteAudio = (noteId: string, recording: Blob | null) => setNoteMedia(noteId, 'audioId', recording);
+
 export async function deleteFlashcard(id: string): Promise<void> {
   await initDB();
-  await db.delete(CARDS_STORE, id);
+  const tx = db.transaction([CARDS_STORE, REVIEW_LOG_STORE], 'readwrite');
+  await tx.objectStore(CARDS_STORE).delete(id);
+  const logIds = await tx.objectStore(REVIEW_LOG_STORE).index('cardId').getAllKeys(id);
+  for (const logId of logIds) {
+    await tx.objectStore(REVIEW_LOG_STORE).delete(logId);
+  }
+  await tx.done;
 }
 
 // Alias for deleteFlashcard to match component expectations
 export const deleteCard = deleteFlashcard;
 
-export async function updateCardReview(id: string, difficulty: 'again' | 'hard' | 'good' | 'easy'): Promise<void> {
+export async function getAllDecks(): Promise<Deck[]> {
   await initDB();
-  const card = await db.get(CARDS_STORE, id);
-  if (!card) return;
+  const decks: Deck[] = await db.getAll(DECKS_STORE);
+  return decks
+    .map(withDeckDefaults)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
 
-  const config = await getLearningConfig();
-  const updatedCard = await calculateAnkiScheduling(card, difficulty, config);
-  await db.put(CARDS_STORE, updatedCard);
+export async function getDeck(id: string): Promise<Deck | undefined> {
+  await initDB();
+  const deck: Deck | undefined = await db.get(DECKS_STORE, id);
+  return deck && withDeckDefaults(deck);
 }
 
-async function calculateAnkiScheduling(
-  card: Flashcard, 
-  difficulty: 'again' | 'hard' | 'good' | 'easy',
-  config: LearningConfig
-): Promise<Flashcard> {
+async function getDeckMap(): Promise<Map<string, Deck>> {
+  return new Map((await getAllDecks()).map(deck => [deck.id, deck]));
+}
+
+export async function addDeck(deck: Omit<Deck, 'id' | 'createdAt'>): Promise<Deck> {
+  await initDB();
+  const newDeck: Deck = { ...deck, id: uuidv4(), createdAt: new Date() };
+  await db.add(DECKS_STORE, newDeck);
+  return newDeck;
+}
+
+// Cards the deck's directions call for are created straight away, e.g. reverse cards for
+// every word once the deck is studied both ways
+export async function updateDeck(deck: Deck): Promise<void> {
+  await initDB();
+  await db.put(DECKS_STORE, deck);
+
+  const notes = new Map<string, Flashcard[]>();
+  for (const card of await getDeckFlashcards(deck.id)) {
+    notes.set(card.noteId, [...(notes.get(card.noteId) || []), card]);
+  }
+  for (const cards of notes.values()) {
+    if (getMissingCardKinds(cards, deck).length > 0) {
+      await saveNoteCards(cards, deck);
+    }
+  }
+}
+
+// Deletes the deck together with its cards, their review history and media.
+// The default deck cannot be deleted so there is always somewhere to add cards.
+export async function deleteDeck(id: string): Promise<void> {
+  if (id === DEFAULT_DECK_ID) return;
+  await initDB();
+  const tx = db.transaction([DECKS_STORE, CARDS_STORE, REVIEW_LOG_STORE, MEDIA_STORE], 'readwrite');
+  const cards: Flashcard[] = await tx.objectStore(CARDS_STORE).index('deckId').getAll(id);
+  for (const mediaId of getMediaIds(cards)) {
+    await tx.objectStore(MEDIA_STORE).delete(mediaId);
+  }
+  for (const { id: cardId } of cards) {
+    await tx.objectStore(CARDS_STORE).delete(cardId);
+    const logIds = await tx.objectStore(REVIEW_LOG_STORE).index('cardId').getAllKeys(cardId);
+    for (const logId of logIds) {
+      await tx.objectStore(REVIEW_LOG_STORE).delete(logId);
+    }
+  }
+  await tx.objectStore(DECKS_STORE).delete(id);
+  await tx.done;
+}
+
+export async function getDeckCounts(): Promise<DeckCounts[]> {
+  const decks = await getAllDecks();
+  const allCards = await getAllFlashcards();
+  const limits = await getDailyLimits();
   const now = new Date();
-  let updatedCard = { ...card };
 
-  if (card.cardState === 'new' || card.cardState === 'learning') {
-    // Handle learning phase
-    const learningSteps = config.learningSteps;
-    
-    switch (difficulty) {
-      case 'again':
-        // Reset to first learning step
-        updatedCard.currentLearningStep = 0;
-        updatedCard.cardState = 'learning';
-        updatedCard.interval = learningSteps[0];
-        updatedCard.nextReviewDate = addMinutes(now, learningSteps[0]);
-        break;
-        
-      case 'hard':
-        // Repeat current step
-        const currentStep = Math.max(0, card.currentLearningStep);
-        updatedCard.interval = learningSteps[currentStep] || learningSteps[learningSteps.length - 1];
-        updatedCard.nextReviewDate = addMinutes(now, updatedCard.interval);
-        break;
-        
-      case 'good':
-        // Advance to next learning step or graduate
-        const nextStepIndex = card.currentLearningStep + 1;
-        if (nextStepIndex >= learningSteps.length) {
-          // Graduate to review
-          updatedCard.cardState = 'review';
-          updatedCard.interval = config.graduatingInterval;
-          updatedCard.nextReviewDate = addDays(now, config.graduatingInterval);
-          updatedCard.currentLearningStep = 0;
-        } else {
-          // Move to next learning step
-          updatedCard.currentLearningStep = nextStepIndex;
-          updatedCard.cardState = 'learning';
-          updatedCard.interval = learningSteps[nextStepIndex];
-          updatedCard.nextReviewDate = addMinutes(now, learningSteps[nextStepIndex]);
-        }
-        break;
-        
-      case 'easy':
-        // Graduate with easy interval
-        updatedCard.cardState = 'review';
-        updatedCard.interval = config.easyInterval;
-        updatedCard.nextReviewDate = addDays(now, config.easyInterval);
-        updatedCard.currentLearningStep = 0;
-        updatedCard.ease = Math.min(updatedCard.ease + 0.15, 5.0);
-        break;
+  return decks.map(deck => {
+    const deckCards = allCards.filter(card => card.deckId === deck.id && isDirectionStudied(card, deck));
+    const dueCards = deckCards.filter(card => new Date(card.nextReviewDate) <= now && isCardActive(card, now, deck));
+    return {
+      deckId: deck.id,
+      totalCards: deckCards.length,
+      newCards: deckCards.filter(card => card.cardState === 'new').length,
+      dueToday: applyDailyLimits(dueCards, limits).length,
+    };
+  });
+}
+
+export async function updateCardReview(id: string, difficulty: ReviewDifficulty, timeTaken = 0): Promise<ReviewResult | undefined> {
+  await initDB();
+  const card: Flashcard | undefined = await db.get(CARDS_STORE, id);
+  if (!card) return;
+
+  const config = await getLearningConfig();
+  const now = new Date();
+  let updatedCard = getScheduler(config.algorithm).next(card, difficulty, config, now);
+  if (updatedCard.cardState === 'review') {
+    // Previews show the scheduler's interval; only the saved one is fuzzed
+    updatedCard = await balanceReviewInterval(updatedCard, config, now);
+  }
+  const isLeech = updatedCard.lapses > card.lapses && isLeechLapse(updatedCard.lapses, config.leechThreshold);
+  if (isLeech) {
+    updatedCard = {
+      ...updatedCard,
+      tags: normalizeTags([...updatedCard.tags, LEECH_TAG]),
+      suspended: updatedCard.suspended || config.leechAction === 'suspend',
+    };
+  }
+  const log: ReviewLog = {
+    id: uuidv4(),
+    cardId: card.id,
+    timestamp: new Date(),
+    difficulty,
+    previousInterval: card.interval,
+    newInterval: updatedCard.interval,
+    previousEase: card.ease,
+    newEase: updatedCard.ease,
+    previousState: card.cardState,
+    newState: updatedCard.cardState,
+    timeTaken: Math.max(0, Math.round(timeTaken)),
+  };
+
+  // Card and log are written together so history never disagrees with the card
+  const tx = db.transaction([CARDS_STORE, REVIEW_LOG_STORE, STATS_STORE], 'readwrite');
+  await tx.objectStore(CARDS_STORE).put(updatedCard);
+  await tx.objectStore(REVIEW_LOG_STORE).add(log);
+
+  // Seeing one direction gives the other away, so other directions of the word (or other clozes
+  // of the sentence) that would come up today wait until tomorrow. Cards in learning keep their steps, as in Anki.
+  const tomorrow = addMinutes(getStudyDayStart(now, config.dayRolloverHour), 24 * 60);
+  const buriedSiblings: Flashcard[] = [];
+  for (const sibling of await tx.objectStore(CARDS_STORE).index('noteId').getAll(card.noteId) as Flashcard[]) {
+    const isDueToday = new Date(sibling.nextReviewDate) < tomorrow;
+    const isBuryable = sibling.cardState === 'new' || sibling.cardState === 'review';
+    if (sibling.id !== card.id && isDueToday && isBuryable && isCardActive(sibling, now)) {
+      await tx.objectStore(CARDS_STORE).put({ ...sibling, buriedUntil: tomorrow });
+      buriedSiblings.push(sibling);
     }
-  } else if (card.cardState === 'review' || card.cardState === 'relearning') {
-    // Handle review phase with traditional SM-2 algorithm
-    const { newInterval, newEase } = calculateSM2Review(card.interval, card.ease, difficulty);
-    
-    if (difficulty === 'again') {
-      // Move to relearning
-      updatedCard.cardState = 'relearning';
-      updatedCard.currentLearningStep = 0;
-      updatedCard.lapses += 1;
-      updatedCard.interval = config.relearningSteps[0];
-      updatedCard.nextReviewDate = addMinutes(now, config.relearningSteps[0]);
-      updatedCard.ease = Math.max(1.3, card.ease - 0.2);
-    } else {
-      // Continue in review phase
-      updatedCard.cardState = 'review';
-      updatedCard.interval = newInterval;
-      updatedCard.ease = newEase;
-      updatedCard.nextReviewDate = addDays(now, newInterval);
+  }
+
+  const streak: StreakRecord | undefined = await tx.objectStore(STATS_STORE).get('streak');
+  await tx.objectStore(STATS_STORE).put({
+    id: 'streak',
+    longestStreak: streak?.longestStreak || 0,
+    lastStudyDate: log.timestamp,
+  });
+  await tx.done;
+  return { log, card: updatedCard, isLeech, buriedSiblings, previousStudyDate: streak?.lastStudyDate };
+}
+
+// Moves a freshly scheduled review to a random day within its fuzz range, favouring
+// days with fewer reviews due so cards learned together drift apart
+async function balanceReviewInterval(card: Flashcard, config: LearningConfig, now: Date): Promise<Flashcard> {
+  const range = getFuzzRange(card.interval, MAX_INTERVAL);
+  if (range.min === range.max) return card;
+
+  const dayOf = (interval: number) => addDays(now, interval);
+  let dueCounts: number[] | undefined;
+  if (config.loadBalancing) {
+    const today = getStudyDay(now, config.dayRolloverHour);
+    const dueCards: Flashcard[] = await db.getAllFromIndex(
+      CARDS_STORE,
+      'nextReviewDate',
+      IDBKeyRange.bound(
+        getStudyDayStart(dayOf(range.min), config.dayRolloverHour),
+        getStudyDayStart(dayOf(range.max + 1), config.dayRolloverHour),
+        false,
+        true
+      )
+    );
+    dueCounts = new Array(range.max - range.min + 1).fill(0);
+    for (const dueCard of dueCards) {
+      if (dueCard.id === card.id || dueCard.cardState !== 'review' || dueCard.suspended) continue;
+      const index = getStudyDay(dueCard.nextReviewDate, config.dayRolloverHour) - today - range.min;
+      if (index >= 0 && index < dueCounts.length) dueCounts[index]++;
     }
   }
 
-  updatedCard.reviewCount += 1;
-  return updatedCard;
+  const interval = pickInterval(range, {
+    dueCounts,
+    easyDays: config.easyDays,
+    weekdayOf: (days) => addMinutes(dayOf(days), -config.dayRolloverHour * 60).getDay(),
+  });
+  return { ...card, interval, nextReviewDate: dayOf(interval) };
 }
 
-function calculateSM2Review(interval: number, ease: number, difficulty: 'again' | 'hard' | 'good' | 'easy'): { newInterval: number; newEase: number } {
-  let newEase = ease;
-  let newInterval = interval;
+// Reverts an answer: the card goes back to the state it was in before it was answered
+// and the answer is removed from the history, as if it had never been given.
+// Pass the siblings the answer buried to bring them back too.
+export async function undoCardReview(
+  previousCard: Flashcard,
+  logId: string,
+  buriedSiblings: Flashcard[] = [],
+  previousStudyDate?: Date
+): Promise<void> {
+  await initDB();
+  const tx = db.transaction([CARDS_STORE, REVIEW_LOG_STORE, STATS_STORE], 'readwrite');
+  const log: ReviewLog | undefined = await tx.objectStore(REVIEW_LOG_STORE).get(logId);
+  await tx.objectStore(CARDS_STORE).put(previousCard);
+  for (const sibling of buriedSiblings) {
+    await tx.objectStore(CARDS_STORE).put(sibling);
+  }
+  await tx.objectStore(REVIEW_LOG_STORE).delete(logId);
 
-  switch (difficulty) {
-    case 'hard':
-      newInterval = Math.max(1, interval * 1.2);
-      newEase = Math.max(1.3, ease - 0.15);
-      break;
-    case 'good':
-      newInterval = interval * ease;
-      break;
-    case 'easy':
-      newInterval = interval * ease * 1.3;
-      newEase = ease + 0.15;
-      break;
+  // The streak record was stamped with this answer; fall back to the latest answer left,
+  // or to the date the record had before it when no answer is left
+  const streak: StreakRecord | undefined = await tx.objectStore(STATS_STORE).get('streak');
+  if (log && streak?.lastStudyDate && new Date(streak.lastStudyDate).getTime() === new Date(log.timestamp).getTime()) {
+    const latest = await tx.objectStore(REVIEW_LOG_STORE).index('timestamp').openCursor(null, 'prev');
+    await tx.objectStore(STATS_STORE).put({ ...streak, lastStudyDate: latest ? latest.value.timestamp : previousStudyDate });
   }
+  await tx.done;
+}
 
-  return { newInterval: Math.max(1, newInterval), newEase };
+// Every possible outcome of answering the card, for showing intervals on the answer buttons
+export async function previewCardReview(card: Flashcard): Promise<Record<ReviewDifficulty, Flashcard>> {
+  const config = await getLearningConfig();
+  return getScheduler(config.algorithm).preview(card, config, new Date());
 }
 
-function addMinutes(date: Date, minutes: number): Date {
-  const result = new Date(date);
-  result.setMinutes(result.getMinutes() + minutes);
-  return result;
+export async function getAllReviewLogs(): Promise<ReviewLog[]> {
+  await initDB();
+  return await db.getAllFromIndex(REVIEW_LOG_STORE, 'timestamp');
 }
 
-function addDays(date: Date, days: number): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
+export async function getReviewLogsForCard(cardId: string): Promise<ReviewLog[]> {
+  await initDB();
+  const logs: ReviewLog[] = await db.getAllFromIndex(REVIEW_LOG_STORE, 'cardId', cardId);
+  return logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 }
 
-export async function searchFlashcards(query: string): Promise<Flashcard[]> {
-  const allCards = await getAllFlashcards();
-  return allCards.filter(card => 
-    card.french.toLowerCase().includes(query.toLowerCase()) ||
-    card.english.toLowerCase().includes(query.toLowerCase())
-  );
+// Day number of the study day a moment belongs to; the day starts at the rollover hour
+function getStudyDay(date: Date, rolloverHour: number): number {
+  const shifted = addMinutes(new Date(date), -rolloverHour * 60);
+  return Math.floor(Date.UTC(shifted.getFullYear(), shifted.getMonth(), shifted.getDate()) / 86400000);
+}
+
+function getStudyDayStart(date: Date, rolloverHour: number): Date {
+  const shifted = addMinutes(new Date(date), -rolloverHour * 60);
+  return new Date(shifted.getFullYear(), shifted.getMonth(), shifted.getDate(), rolloverHour);
+}
+
+function calculateStreaks(studyDays: number[], today: number): { currentStreak: number; longestStreak: number } {
+  const days = [...new Set(studyDays)].sort((a, b) => a - b);
+  let longestStreak = 0;
+  let run = 0;
+
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  // Streak stays alive until the end of today even if not studied yet
+  const lastDay = days[days.length - 1];
+  const currentStreak = lastDay === today || lastDay === today - 1 ? run : 0;
+  return { currentStreak, longestStreak };
 }
 
-// Deprecated - use calculateAnkiScheduling instead
-export function calculateNextReview(interval: number, ease: number, difficulty: 'again' | 'hard' | 'good' | 'easy'): { newInterval: number; newEase: number } {
+// Whether the query is part of either side, a detail or a tag of the card
+export function matchesQuery(card: Flashcard, query: string): boolean {
+  const lowerQuery = query.toLowerCase();
+  return [card.front, card.back, ...NOTE_DETAIL_FIELDS.map(field => card[field])]
+    .some(text => text?.toLowerCase().includes(lowerQuery)) ||
+    card.tags.some(tag => tag.includes(lowerQuery));
+}
+
+// Matches the query against both sides, the details and the tags; pass tags to only search cards with them
+export async function searchFlashcards(query: string, tags: string[] = []): Promise<Flashcard[]> {
+  const allCards = await getFilteredFlashcards({ tags });
+  return allCards.filter(card => matchesQuery(card, query));
+}
+
+// Deprecated - use the Scheduler returned by getScheduler instead
+export function calculateNextReview(interval: number, ease: number, difficulty: ReviewDifficulty): { newInterval: number; newEase: number } {
   return calculateSM2Review(interval, ease, difficulty);
 }
 
+async function getStreakStats(
+  logs: ReviewLog[],
+  config: LearningConfig
+): Promise<Pick<StudyStats, 'currentStreak' | 'longestStreak' | 'lastStudyDate'>> {
+  await initDB();
+  const record: StreakRecord | undefined = await db.get(STATS_STORE, 'streak');
+
+  const studyDays = logs.map(log => getStudyDay(log.timestamp, config.dayRolloverHour));
+  if (record?.lastStudyDate) {
+    studyDays.push(getStudyDay(record.lastStudyDate, config.dayRolloverHour));
+  }
+
+  const today = getStudyDay(new Date(), config.dayRolloverHour);
+  const { currentStreak, longestStreak } = calculateStreaks(studyDays, today);
+  const bestStreak = Math.max(longestStreak, record?.longestStreak || 0);
+  const lastStudyDate = logs.length > 0 ? new Date(logs[logs.length - 1].timestamp) : record?.lastStudyDate;
+
+  if (!record || record.longestStreak !== bestStreak) {
+    await db.put(STATS_STORE, { id: 'streak', longestStreak: bestStreak, lastStudyDate });
+  }
+
+  return { currentStreak, longestStreak: bestStreak, lastStudyDate };
+}
+
 export async function getStudyStats(): Promise<StudyStats> {
   const allCards = await getAllFlashcards();
+  const config = await getLearningConfig();
+  const logs = await getAllReviewLogs();
+  const streakStats = await getStreakStats(logs, config);
+  const deckById = await getDeckMap();
   const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   
-  const dueCards = allCards.filter(card => new Date(card.nextReviewDate) <= now);
-  const reviewedToday = allCards.filter(card => {
-    const reviewDate = new Date(card.nextReviewDate);
-    return reviewDate >= today && card.reviewCount > 0;
-  });
+  const dueCards = allCards.filter(card =>
+    new Date(card.nextReviewDate) <= now && isCardActive(card, now, deckById.get(card.deckId))
+  );
+
+  // Today's activity comes from the answers actually given, not from scheduling dates
+  const today = getStudyDay(now, config.dayRolloverHour);
+  const todayLogs = logs.filter(log => getStudyDay(log.timestamp, config.dayRolloverHour) === today);
+  const limits = calculateDailyLimits(todayLogs, config);
   
-  const reviewCards = allCards.filter(card => card.cardState === 'review');
-  const masteryPercentage = allCards.length > 0 ? (reviewCards.length / allCards.length) * 100 : 0;
+  // Cards of directions the deck no longer studies are left out, so they don't hold mastery back
+  const studiedCards = allCards.filter(card => isDirectionStudied(card, deckById.get(card.deckId)));
+  const reviewCards = studiedCards.filter(card => card.cardState === 'review');
+  const masteryPercentage = studiedCards.length > 0 ? (reviewCards.length / studiedCards.length) * 100 : 0;
 
   return {
-    totalCards: allCards.length,
-    reviewedToday: reviewedToday.length,
-    currentStreak: 0, // Simplified for now
-    dueToday: dueCards.length,
+    totalCards: studiedCards.length,
+    reviewedToday: new Set(todayLogs.map(log => log.cardId)).size,
+    newCardsToday: todayLogs.filter(log => log.previousState === 'new').length,
+    againToday: todayLogs.filter(log => log.difficulty === 'again').length,
+    timeSpentToday: todayLogs.reduce((total, log) => total + (log.timeTaken || 0), 0),
+    ...limits,
+    ...streakStats,
+    dueToday: applyDailyLimits(dueCards, limits).length,
     masteryPercentage: Math.round(masteryPercentage),
   };
 }
 
-export async function exportData(): Promise<string> {
+// Pass a deck id to export only that deck, e.g. for sharing; the learning config is left out then
+export async function exportData(deckId?: string): Promise<string> {
+  if (deckId) {
+    const deck = await getDeck(deckId);
+    const cards = await getDeckFlashcards(deckId);
+    const cardIds = new Set(cards.map(card => card.id));
+    const reviewLogs = (await getAllReviewLogs()).filter(log => cardIds.has(log.cardId));
+    const media = await exportMedia(cards);
+    return JSON.stringify({ decks: deck ? [deck] : [], cards, reviewLogs, media }, null, 2);
+  }
+
+  const decks = await getAllDecks();
   const cards = await getAllFlashcards();
   const config = await getLearningConfig();
-  return JSON.stringify({ cards, config }, null, 2);
+  const reviewLogs = await getAllReviewLogs();
+  const media = await exportMedia(cards);
+  return JSON.stringify({ decks, cards, config, reviewLogs, media }, null, 2);
+}
+
+// Images and recordings of the given cards, base64 encoded
+async function exportMedia(cards: Flashcard[]): Promise<ExportedMedia[]> {
+  const media: ExportedMedia[] = [];
+  for (const id of getMediaIds(cards)) {
+    const blob = await getMedia(id);
+    if (blob) {
+      media.push({ id, type: blob.type, data: await blobToBase64(blob) });
+    }
+  }
+  return media;
 }
 
 export async function importData(jsonData: string): Promise<number> {
+  await initDB();
   try {
     const data = JSON.parse(jsonData);
-    const cards: Flashcard[] = data.cards || data; // Support both new and old format
+    // Support both new and old format; old cards have french/english instead of front/back
+    const cards: (Flashcard & { french?: string; english?: string })[] = data.cards || data;
     let importedCount = 0;
     
     // Import config if available
     if (data.config) {
       await updateLearningConfig(data.config);
     }
+
+    // Exports made before decks existed have none; their cards go into the default deck
+    const decks: Deck[] = Array.isArray(data.decks) ? data.decks : [];
+    for (const deck of decks) {
+      if (deck.id && deck.name) {
+        await db.put(DECKS_STORE, {
+          ...deck,
+          sourceLanguage: isSupportedLanguage(deck.sourceLanguage) ? deck.sourceLanguage : 'fr',
+          targetLanguage: isSupportedLanguage(deck.targetLanguage) ? deck.targetLanguage : 'en',
+          directions: Array.isArray(deck.directions) && deck.directions.length > 0 ? deck.directions : ['forward'],
+          createdAt: new Date(deck.createdAt || new Date()),
+        });
+      }
+    }
+    const deckIds = new Set((await getAllDecks()).map(deck => deck.id));
+
+    // Media are only present in exports made after cards could have images
+    const media: ExportedMedia[] = Array.isArray(data.media) ? data.media : [];
+    for (const item of media) {
+      if (item.id && item.data) {
+        await db.put(MEDIA_STORE, { id: item.id, blob: base64ToBlob(item.data, item.type || ''), createdAt: new Date() });
+      }
+    }
     
-    for (const card of cards) {
-      if (card.french && card.english) {
+    for (const { french, english, ...card } of cards) {
+      const front = card.front || french;
+      const back = card.back || english || '';
+      if (front && (back || isClozeText(front))) {
+        const id = card.id || uuidv4();
         await db.put(CARDS_STORE, {
           ...card,
-          id: card.id || uuidv4(),
+          ...cleanNoteDetails(card),
+          front,
+          back,
+          id,
+          noteId: card.noteId || id,
+          direction: card.direction === 'reverse' ? 'reverse' : 'forward',
+          deckId: deckIds.has(card.deckId) ? card.deckId : DEFAULT_DECK_ID,
+          tags: Array.isArray(card.tags) ? normalizeTags(card.tags) : [],
           nextReviewDate: new Date(card.nextReviewDate || new Date()),
           interval: card.interval || 0,
           ease: card.ease || 2.5,
@@ -385,10 +1258,25 @@ export async function importData(jsonData: string): Promise<number> {
           cardState: card.cardState || 'new',
           currentLearningStep: card.currentLearningStep || 0,
           lapses: card.lapses || 0,
+          lastReviewDate: card.lastReviewDate ? new Date(card.lastReviewDate) : undefined,
+          buriedUntil: card.buriedUntil ? new Date(card.buriedUntil) : undefined,
         });
         importedCount++;
       }
     }
+
+    // Review history is only present in exports made after the log store existed
+    const reviewLogs: ReviewLog[] = Array.isArray(data.reviewLogs) ? data.reviewLogs : [];
+    for (const log of reviewLogs) {
+      if (log.cardId && log.difficulty) {
+        await db.put(REVIEW_LOG_STORE, {
+          ...log,
+          id: log.id || uuidv4(),
+          timestamp: new Date(log.timestamp),
+          timeTaken: log.timeTaken || 0,
+        });
+      }
+    }
     
     return importedCount;
   } catch (error) {
@@ -396,8 +1284,41 @@ export async function importData(jsonData: string): Promise<number> {
   }
 }
 
+// Cards, decks, history and media converted from another app, e.g. an Anki collection
+export interface ImportedData {
+  decks: Deck[];
+  cards: Flashcard[];
+  reviewLogs: ReviewLog[];
+  media: { id: string; blob: Blob }[];
+}
+
+// Written in a single transaction, so a failed import leaves nothing half imported
+export async function addImportedData({ decks, cards, reviewLogs, media }: ImportedData): Promise<void> {
+  await initDB();
+  const tx = db.transaction([DECKS_STORE, CARDS_STORE, REVIEW_LOG_STORE, MEDIA_STORE], 'readwrite');
+  for (const deck of decks) {
+    await tx.objectStore(DECKS_STORE).put(deck);
+  }
+  for (const { id, blob } of media) {
+    await tx.objectStore(MEDIA_STORE).put({ id, blob, createdAt: new Date() });
+  }
+  for (const card of cards) {
+    await tx.objectStore(CARDS_STORE).put(card);
+  }
+  for (const log of reviewLogs) {
+    await tx.objectStore(REVIEW_LOG_STORE).put(log);
+  }
+  await tx.done;
+}
+
 export async function clearAllData(): Promise<void> {
-  const tx = db.transaction([CARDS_STORE], 'readwrite');
+  await initDB();
+  const tx = db.transaction([CARDS_STORE, REVIEW_LOG_STORE, STATS_STORE, DECKS_STORE, MEDIA_STORE], 'readwrite');
   await tx.objectStore(CARDS_STORE).clear();
+  await tx.objectStore(MEDIA_STORE).clear();
+  await tx.objectStore(REVIEW_LOG_STORE).clear();
+  await tx.objectStore(STATS_STORE).clear();
+  await tx.objectStore(DECKS_STORE).clear();
+  await tx.objectStore(DECKS_STORE).put(createDefaultDeck());
   await tx.done;
 }
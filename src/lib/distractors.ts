@@ -0,0 +1,69 @@
+// Wrong answers for multiple-choice reviews. Good distractors look like the right answer,
+// so they come from the same deck where possible, have a similar length and, when cards
+// have a part of speech, are the same kind of word.
+
+import { Flashcard, PARTS_OF_SPEECH } from './database';
+import { getClozeAnswer, isClozeCard } from './cloze';
+
+// Random jitter added to each score so the same distractors don't always come up together
+const VARIETY = 0.5;
+
+const partOfSpeechOf = (card: Flashcard) =>
+  card.partOfSpeech || card.tags.find(tag => PARTS_OF_SPEECH.includes(tag));
+
+// Side of the card the learner has to come up with, or the hidden words of a cloze
+export const getAnswerText = (card: Flashcard) => {
+  if (isClozeCard(card)) return getClozeAnswer(card.front, card.clozeNumber!);
+  return card.direction === 'reverse' ? card.front : card.back;
+};
+
+// Text of another card that can pass for this card's answer: the same side of another word,
+// e.g. another translation. Blanks of a sentence are filled with other words or blanks.
+function getDistractorText(card: Flashcard, candidate: Flashcard): string {
+  if (isClozeCard(card)) return isClozeCard(candidate) ? getAnswerText(candidate) : candidate.front;
+  if (isClozeCard(candidate)) return '';
+  return card.direction === 'reverse' ? candidate.front : candidate.back;
+}
+
+export function pickDistractors(
+  card: Flashcard,
+  candidates: Flashcard[],
+  count: number,
+  random: () => number = Math.random
+): string[] {
+  const answer = getAnswerText(card);
+  const partOfSpeech = partOfSpeechOf(card);
+  const best = new Map<string, { text: string; score: number }>();
+
+  for (const candidate of candidates) {
+    if (candidate.noteId === card.noteId) continue;
+    const text = getDistractorText(card, candidate);
+    const key = text.trim().toLowerCase();
+    if (!key || key === answer.trim().toLowerCase()) continue;
+
+    const lengthSimilarity = 1 - Math.abs(text.length - answer.length) / Math.max(text.length, answer.length);
+    const candidatePartOfSpeech = partOfSpeechOf(candidate);
+    let score = lengthSimilarity + random() * VARIETY;
+    if (candidate.deckId === card.deckId) score += 1;
+    if (partOfSpeech && candidatePartOfSpeech) score += candidatePartOfSpeech === partOfSpeech ? 1 : -1;
+
+    if (!best.has(key) || best.get(key)!.score < score) {
+      best.set(key, { text, score });
+    }
+  }
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map(distractor => distractor.text);
+}
+
+// The answer and its distractors in random order
+export function buildChoices(card: Flashcard, candidates: Flashcard[], count: number, random: () => number = Math.random): string[] {
+  const choices = [getAnswerText(card), ...pickDistractors(card, candidates, count - 1, random)];
+  for (let i = choices.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [choices[i], choices[j]] = [choices[j], choices[i]];
+  }
+  return choices;
+}
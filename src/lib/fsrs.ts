@@ -0,0 +1,113 @@
+// Free Spaced Repetition Scheduler (FSRS-5)
+// Each card keeps a memory state: stability (days until recall probability drops to 90%)
+// and difficulty (1 = easiest, 10 = hardest).
+
+export type FSRSGrade = 1 | 2 | 3 | 4; // again, hard, good, easy
+
+export interface MemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+// Default FSRS-5 parameters, trained on a large collection of Anki review histories
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+  1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621,
+];
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81; // Makes retrievability exactly 90% when elapsed days equal stability
+const MIN_STABILITY = 0.01;
+export const MAX_INTERVAL = 36500; // 100 years
+
+const w = DEFAULT_FSRS_WEIGHTS;
+
+function clampDifficulty(difficulty: number): number {
+  return Math.min(10, Math.max(1, difficulty));
+}
+
+// Probability of recalling a card after the given number of days
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+}
+
+function initialStability(grade: FSRSGrade): number {
+  return Math.max(MIN_STABILITY, w[grade - 1]);
+}
+
+function initialDifficulty(grade: FSRSGrade): number {
+  return clampDifficulty(w[4] - Math.exp(w[5] * (grade - 1)) + 1);
+}
+
+function nextDifficulty(difficulty: number, grade: FSRSGrade): number {
+  const delta = -w[6] * (grade - 3);
+  // Linear damping: changes shrink as difficulty approaches 10
+  const damped = difficulty + delta * (10 - difficulty) / 9;
+  // Mean reversion towards the difficulty of a card first rated "easy"
+  return clampDifficulty(w[7] * initialDifficulty(4) + (1 - w[7]) * damped);
+}
+
+function nextRecallStability(state: MemoryState, recall: number, grade: FSRSGrade): number {
+  const hardPenalty = grade === 2 ? w[15] : 1;
+  const easyBonus = grade === 4 ? w[16] : 1;
+  return state.stability * (
+    1 +
+    Math.exp(w[8]) *
+    (11 - state.difficulty) *
+    Math.pow(state.stability, -w[9]) *
+    (Math.exp(w[10] * (1 - recall)) - 1) *
+    hardPenalty *
+    easyBonus
+  );
+}
+
+function nextForgetStability(state: MemoryState, recall: number): number {
+  const stability = w[11] *
+    Math.pow(state.difficulty, -w[12]) *
+    (Math.pow(state.stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - recall));
+  // Forgetting never makes a memory more stable than it was
+  return Math.min(stability, state.stability);
+}
+
+// Reviews on the same day (learning steps) only nudge stability
+function nextShortTermStability(stability: number, grade: FSRSGrade): number {
+  return stability * Math.exp(w[17] * (grade - 3 + w[18]));
+}
+
+export function nextMemoryState(state: MemoryState | undefined, grade: FSRSGrade, elapsedDays: number): MemoryState {
+  if (!state) {
+    return { stability: initialStability(grade), difficulty: initialDifficulty(grade) };
+  }
+
+  let stability: number;
+  if (elapsedDays < 1) {
+    stability = nextShortTermStability(state.stability, grade);
+  } else {
+    const recall = retrievability(elapsedDays, state.stability);
+    stability = grade === 1
+      ? nextForgetStability(state, recall)
+      : nextRecallStability(state, recall, grade);
+  }
+
+  return {
+    stability: Math.max(MIN_STABILITY, stability),
+    difficulty: nextDifficulty(state.difficulty, grade),
+  };
+}
+
+// Days until recall probability falls to the desired retention
+export function nextInterval(stability: number, desiredRetention: number): number {
+  const interval = stability / FACTOR * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+  return Math.min(MAX_INTERVAL, Math.max(1, Math.round(interval)));
+}
+
+// Approximate memory state for a card that was scheduled with SM-2 and has no FSRS history.
+// SM-2 intervals roughly target 90% retention, which is how FSRS defines stability,
+// and ease maps onto difficulty: 2.5 (default) -> 5, 1.3 (minimum) -> 10.
+export function memoryStateFromSM2(interval: number, ease: number): MemoryState {
+  return {
+    stability: Math.max(MIN_STABILITY, interval),
+    difficulty: clampDifficulty(5 + (2.5 - ease) * (5 / 1.2)),
+  };
+}
@@ -0,0 +1,142 @@
+import type { Flashcard, LearningConfig, ReviewDifficulty } from './database';
+import { FSRSGrade, MemoryState, memoryStateFromSM2, nextInterval, nextMemoryState } from './fsrs';
+import { Scheduler, addDays, addMinutes, previewAllGrades, registerScheduler } from './scheduler';
+
+function withSeededMemoryState(card: Flashcard): Flashcard {
+  const seeded = { ...card };
+  if (card.cardState === 'review') {
+    const { stability, difficulty } = memoryStateFromSM2(card.interval, card.ease);
+    seeded.stability = stability;
+    seeded.difficulty = difficulty;
+    seeded.lastReviewDate = card.lastReviewDate || addDays(new Date(card.nextReviewDate), -card.interval);
+  } else if (card.cardState === 'relearning') {
+    // Interval is in minutes here; treat it as a freshly forgotten card
+    const { difficulty } = memoryStateFromSM2(1, card.ease);
+    seeded.stability = nextMemoryState(undefined, 1, 0).stability;
+    seeded.difficulty = difficulty;
+    seeded.lastReviewDate = card.lastReviewDate || new Date();
+  }
+  // Learning cards start FSRS from their next answer, like new cards
+  return seeded;
+}
+
+const FSRS_GRADES: Record<ReviewDifficulty, FSRSGrade> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+// Learning steps work as in SM-2; FSRS decides every interval measured in days
+function calculateFSRSScheduling(
+  card: Flashcard,
+  difficulty: ReviewDifficulty,
+  config: LearningConfig,
+  now: Date
+): Flashcard {
+  const seededCard = card.stability === undefined ? withSeededMemoryState(card) : card;
+  const memory: MemoryState | undefined = seededCard.stability !== undefined && seededCard.difficulty !== undefined
+    ? { stability: seededCard.stability, difficulty: seededCard.difficulty }
+    : undefined;
+  const elapsedDays = seededCard.lastReviewDate
+    ? Math.max(0, (now.getTime() - new Date(seededCard.lastReviewDate).getTime()) / (24 * 60 * 60 * 1000))
+    : 0;
+
+  const nextMemory = nextMemoryState(memory, FSRS_GRADES[difficulty], elapsedDays);
+  const updatedCard: Flashcard = {
+    ...seededCard,
+    stability: nextMemory.stability,
+    difficulty: nextMemory.difficulty,
+    lastReviewDate: now,
+    reviewCount: card.reviewCount + 1,
+  };
+
+  const graduate = () => {
+    const interval = nextInterval(nextMemory.stability, config.desiredRetention);
+    updatedCard.cardState = 'review';
+    updatedCard.currentLearningStep = 0;
+    updatedCard.interval = interval;
+    updatedCard.nextReviewDate = addDays(now, interval);
+  };
+
+  const scheduleStep = (steps: number[], stepIndex: number) => {
+    updatedCard.currentLearningStep = stepIndex;
+    updatedCard.interval = steps[stepIndex];
+    updatedCard.nextReviewDate = addMinutes(now, steps[stepIndex]);
+  };
+
+  if (card.cardState === 'review') {
+    if (difficulty === 'again') {
+      updatedCard.lapses += 1;
+      if (config.relearningSteps.length > 0) {
+        updatedCard.cardState = 'relearning';
+        scheduleStep(config.relearningSteps, 0);
+      } else {
+        graduate();
+      }
+    } else {
+      graduate();
+    }
+    return updatedCard;
+  }
+
+  // New, learning and relearning cards walk through their steps
+  const steps = card.cardState === 'relearning' ? config.relearningSteps : config.learningSteps;
+  const stepState = card.cardState === 'relearning' ? 'relearning' : 'learning';
+
+  switch (difficulty) {
+    case 'again':
+      if (steps.length === 0) {
+        graduate();
+      } else {
+        updatedCard.cardState = stepState;
+        scheduleStep(steps, 0);
+      }
+      break;
+    case 'hard':
+      if (steps.length === 0) {
+        graduate();
+      } else {
+        updatedCard.cardState = stepState;
+        scheduleStep(steps, Math.min(Math.max(0, card.currentLearningStep), steps.length - 1));
+      }
+      break;
+    case 'good': {
+      const nextStepIndex = card.currentLearningStep + 1;
+      if (nextStepIndex >= steps.length) {
+        graduate();
+      } else {
+        updatedCard.cardState = stepState;
+        scheduleStep(steps, nextStepIndex);
+      }
+      break;
+    }
+    case 'easy':
+      graduate();
+      break;
+  }
+
+  return updatedCard;
+}
+
+export const fsrsScheduler: Scheduler = {
+  id: 'fsrs',
+  name: 'FSRS',
+  configSchema: [
+    { key: 'learningSteps', type: 'steps', labelKey: 'config.learning.steps' },
+    { key: 'relearningSteps', type: 'steps', labelKey: 'config.relearning.steps' },
+    {
+      key: 'desiredRetention',
+      type: 'number',
+      labelKey: 'settings.study.retention',
+      descriptionKey: 'settings.study.retention.description',
+      min: 0.7,
+      max: 0.99,
+      step: 0.01,
+    },
+  ],
+  next: calculateFSRSScheduling,
+  preview: (card, config, now) => previewAllGrades(calculateFSRSScheduling, card, config, now),
+  // Give cards reviewed under SM-2 a memory state so switching keeps their progress
+  migrateCard: (card) => {
+    if (card.stability !== undefined || card.cardState === 'new' || card.cardState === 'learning') return undefined;
+    return withSeededMemoryState(card);
+  },
+};
+
+registerScheduler(fsrsScheduler);
@@ -0,0 +1,67 @@
+// Spreads review intervals out so cards learned together don't stay due together.
+// Fuzz widens each interval into a range of acceptable days; the load balancer then
+// prefers the days in that range with the fewest reviews already scheduled.
+
+export interface IntervalRange {
+  min: number;
+  max: number;
+}
+
+// Share of the interval the fuzz may move it by, growing slower as intervals get longer
+const FUZZ_RANGES = [
+  { start: 2.5, end: 7, factor: 0.15 },
+  { start: 7, end: 20, factor: 0.1 },
+  { start: 20, end: Infinity, factor: 0.05 },
+];
+
+// Easy days still get reviews, just far fewer of them
+const EASY_DAY_WEIGHT = 0.1;
+
+// Days a review interval (in days) may be moved to; short intervals are left alone
+export function getFuzzRange(interval: number, maxInterval: number): IntervalRange {
+  if (interval < 2.5) {
+    return { min: interval, max: interval };
+  }
+
+  let delta = 1;
+  for (const range of FUZZ_RANGES) {
+    delta += range.factor * Math.max(0, Math.min(interval, range.end) - range.start);
+  }
+
+  const min = Math.max(2, Math.round(interval - delta));
+  const max = Math.min(maxInterval, Math.round(interval + delta));
+  return { min: Math.min(min, max), max };
+}
+
+// Picks an interval within the range at random, weighted towards days with few reviews due.
+// dueCounts[i] is the number of reviews due on day range.min + i, weekdays are 0 (Sunday) to 6.
+export function pickInterval(
+  range: IntervalRange,
+  options: {
+    dueCounts?: number[]; // Plain fuzz when omitted
+    weekdayOf: (interval: number) => number;
+    easyDays: number[];
+    random?: () => number;
+  }
+): number {
+  const { dueCounts, weekdayOf, easyDays, random = Math.random } = options;
+  const candidates: { interval: number; weight: number }[] = [];
+
+  for (let interval = range.min; interval <= range.max; interval++) {
+    const due = dueCounts?.[interval - range.min] ?? 0;
+    // Squaring the load makes busy days much less likely without ruling them out
+    let weight = dueCounts ? 1 / Math.pow(due + 1, 2) : 1;
+    if (easyDays.includes(weekdayOf(interval))) {
+      weight *= EASY_DAY_WEIGHT;
+    }
+    candidates.push({ interval, weight });
+  }
+
+  const totalWeight = candidates.reduce((total, candidate) => total + candidate.weight, 0);
+  let threshold = random() * totalWeight;
+  for (const candidate of candidates) {
+    threshold -= candidate.weight;
+    if (threshold < 0) return candidate.interval;
+  }
+  return candidates[candidates.length - 1].interval;
+}
@@ -0,0 +1,53 @@
+// Images and recordings attached to cards. Images are downscaled before being stored, since
+// a photo straight from a phone camera is several megabytes and is only ever shown a few
+// hundred pixels wide. Both are written to backups as base64 so an export holds everything
+// needed to restore it.
+
+export const MAX_IMAGE_SIZE = 800; // Pixels on the longest side
+const IMAGE_QUALITY = 0.85;
+
+// Animations and vector images would be lost by redrawing them, so they are kept as they are
+const KEPT_IMAGE_TYPES = ['image/gif', 'image/svg+xml'];
+
+// Image among dropped or pasted files, if any
+export function getImageFile(data: DataTransfer | null): File | null {
+  return Array.from(data?.files || []).find(file => file.type.startsWith('image/')) || null;
+}
+
+// Rejects with Error('not-an-image') for other files
+export async function downscaleImage(image: Blob, maxSize = MAX_IMAGE_SIZE): Promise<Blob> {
+  if (!image.type.startsWith('image/')) throw new Error('not-an-image');
+  if (KEPT_IMAGE_TYPES.includes(image.type)) return image;
+
+  const bitmap = await createImageBitmap(image);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const downscaled = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', IMAGE_QUALITY));
+  // Small images may come out bigger after re-encoding
+  if (!downscaled || (scale === 1 && downscaled.size >= image.size)) return image;
+  return downscaled;
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Converted in chunks, as spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBlob(data: string, type: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
@@ -0,0 +1,89 @@
+import type { Flashcard, LearningConfig, ReviewDifficulty } from './database';
+
+export const REVIEW_GRADES: ReviewDifficulty[] = ['again', 'hard', 'good', 'easy'];
+
+// Describes a LearningConfig setting a scheduler reads, so settings UIs can be generated
+export interface SchedulerConfigField {
+  key: keyof LearningConfig;
+  type: 'number' | 'steps'; // Steps are lists of minutes
+  labelKey: string; // Translation key
+  descriptionKey?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface Scheduler {
+  id: string;
+  name: string;
+  configSchema: SchedulerConfigField[];
+  // Card as it would be after answering with the given grade; must not modify the input
+  next(card: Flashcard, grade: ReviewDifficulty, config: LearningConfig, now: Date): Flashcard;
+  // Outcome of every answer button without saving anything
+  preview(card: Flashcard, config: LearningConfig, now: Date): Record<ReviewDifficulty, Flashcard>;
+  // Optional one-off conversion for cards scheduled by another algorithm, run when switching to this one
+  migrateCard?(card: Flashcard): Flashcard | undefined;
+}
+
+const schedulers = new Map<string, Scheduler>();
+
+export function registerScheduler(scheduler: Scheduler) {
+  schedulers.set(scheduler.id, scheduler);
+}
+
+export function getSchedulers(): Scheduler[] {
+  return [...schedulers.values()];
+}
+
+// Unknown ids (e.g. from a config exported by a newer version) fall back to SM-2
+export function getScheduler(id: string): Scheduler {
+  return schedulers.get(id) || schedulers.get('sm2')!;
+}
+
+export function previewAllGrades(
+  next: Scheduler['next'],
+  card: Flashcard,
+  config: LearningConfig,
+  now: Date
+): Record<ReviewDifficulty, Flashcard> {
+  return Object.fromEntries(
+    REVIEW_GRADES.map(grade => [grade, next(card, grade, config, now)])
+  ) as Record<ReviewDifficulty, Flashcard>;
+}
+
+export type IntervalUnit = 'minute' | 'hour' | 'day' | 'month' | 'year';
+
+// Learning intervals are stored in minutes, review intervals in days
+export function getIntervalMinutes(card: Flashcard): number {
+  return card.cardState === 'review' ? card.interval * 24 * 60 : card.interval;
+}
+
+// Largest unit that keeps the number readable, e.g. 90 minutes -> 1.5 hours
+export function describeInterval(minutes: number): { value: number; unit: IntervalUnit } {
+  const hours = minutes / 60;
+  const days = hours / 24;
+  const round = (value: number) => value < 10 ? Math.round(value * 10) / 10 : Math.round(value);
+
+  if (minutes < 60) return { value: Math.max(1, Math.round(minutes)), unit: 'minute' };
+  if (hours < 24) return { value: round(hours), unit: 'hour' };
+  if (days < 30) return { value: Math.round(days), unit: 'day' };
+  if (days < 365) return { value: round(days / 30), unit: 'month' };
+  return { value: round(days / 365), unit: 'year' };
+}
+
+export function formatInterval(minutes: number, t: (key: string) => string): string {
+  const { value, unit } = describeInterval(minutes);
+  return `${value}${t(`interval.unit.${unit}`)}`;
+}
+
+export function addMinutes(date: Date, minutes: number): Date {
+  const result = new Date(date);
+  result.setMinutes(result.getMinutes() + minutes);
+  return result;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
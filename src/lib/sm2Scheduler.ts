@@ -0,0 +1,125 @@
+import type { Flashcard, LearningConfig, ReviewDifficulty } from './database';
+import { Scheduler, addDays, addMinutes, previewAllGrades, registerScheduler } from './scheduler';
+
+function calculateAnkiScheduling(
+  card: Flashcard, 
+  difficulty: ReviewDifficulty,
+  config: LearningConfig,
+  now: Date
+): Flashcard {
+  const updatedCard = { ...card };
+
+  if (card.cardState === 'new' || card.cardState === 'learning') {
+    // Handle learning phase
+    const learningSteps = config.learningSteps;
+    
+    switch (difficulty) {
+      case 'again':
+        // Reset to first learning step
+        updatedCard.currentLearningStep = 0;
+        updatedCard.cardState = 'learning';
+        updatedCard.interval = learningSteps[0];
+        updatedCard.nextReviewDate = addMinutes(now, learningSteps[0]);
+        break;
+        
+      case 'hard': {
+        // Repeat current step
+        const currentStep = Math.max(0, card.currentLearningStep);
+        updatedCard.interval = learningSteps[currentStep] || learningSteps[learningSteps.length - 1];
+        updatedCard.nextReviewDate = addMinutes(now, updatedCard.interval);
+        break;
+      }
+        
+      case 'good': {
+        // Advance to next learning step or graduate
+        const nextStepIndex = card.currentLearningStep + 1;
+        if (nextStepIndex >= learningSteps.length) {
+          // Graduate to review
+          updatedCard.cardState = 'review';
+          updatedCard.interval = config.graduatingInterval;
+          updatedCard.nextReviewDate = addDays(now, config.graduatingInterval);
+          updatedCard.currentLearningStep = 0;
+        } else {
+          // Move to next learning step
+          updatedCard.currentLearningStep = nextStepIndex;
+          updatedCard.cardState = 'learning';
+          updatedCard.interval = learningSteps[nextStepIndex];
+          updatedCard.nextReviewDate = addMinutes(now, learningSteps[nextStepIndex]);
+        }
+        break;
+      }
+        
+      case 'easy':
+        // Graduate with easy interval
+        updatedCard.cardState = 'review';
+        updatedCard.interval = config.easyInterval;
+        updatedCard.nextReviewDate = addDays(now, config.easyInterval);
+        updatedCard.currentLearningStep = 0;
+        updatedCard.ease = Math.min(updatedCard.ease + 0.15, 5.0);
+        break;
+    }
+  } else if (card.cardState === 'review' || card.cardState === 'relearning') {
+    // Handle review phase with traditional SM-2 algorithm
+    const { newInterval, newEase } = calculateSM2Review(card.interval, card.ease, difficulty);
+    
+    if (difficulty === 'again') {
+      // Move to relearning
+      updatedCard.cardState = 'relearning';
+      updatedCard.currentLearningStep = 0;
+      updatedCard.lapses += 1;
+      updatedCard.interval = config.relearningSteps[0];
+      updatedCard.nextReviewDate = addMinutes(now, config.relearningSteps[0]);
+      updatedCard.ease = Math.max(1.3, card.ease - 0.2);
+    } else {
+      // Continue in review phase
+      updatedCard.cardState = 'review';
+      updatedCard.interval = newInterval;
+      updatedCard.ease = newEase;
+      updatedCard.nextReviewDate = addDays(now, newInterval);
+    }
+  }
+
+  updatedCard.reviewCount += 1;
+  updatedCard.lastReviewDate = now;
+  // A memory state from an earlier FSRS period no longer matches the interval and ease set here;
+  // without it, switching back to FSRS seeds a new one from them
+  updatedCard.stability = undefined;
+  updatedCard.difficulty = undefined;
+  return updatedCard;
+}
+
+export function calculateSM2Review(interval: number, ease: number, difficulty: ReviewDifficulty): { newInterval: number; newEase: number } {
+  let newEase = ease;
+  let newInterval = interval;
+
+  switch (difficulty) {
+    case 'hard':
+      newInterval = Math.max(1, interval * 1.2);
+      newEase = Math.max(1.3, ease - 0.15);
+      break;
+    case 'good':
+      newInterval = interval * ease;
+      break;
+    case 'easy':
+      newInterval = interval * ease * 1.3;
+      newEase = ease + 0.15;
+      break;
+  }
+
+  return { newInterval: Math.max(1, newInterval), newEase };
+}
+
+export const sm2Scheduler: Scheduler = {
+  id: 'sm2',
+  name: 'SM-2',
+  configSchema: [
+    { key: 'learningSteps', type: 'steps', labelKey: 'config.learning.steps' },
+    { key: 'relearningSteps', type: 'steps', labelKey: 'config.relearning.steps' },
+    { key: 'graduatingInterval', type: 'number', labelKey: 'config.graduating.interval', min: 1, step: 1 },
+    { key: 'easyInterval', type: 'number', labelKey: 'config.easy.interval', min: 1, step: 1 },
+  ],
+  next: calculateAnkiScheduling,
+  preview: (card, config, now) => previewAllGrades(calculateAnkiScheduling, card, config, now),
+};
+
+registerScheduler(sm2Scheduler);
@@ -1,6 +1,13 @@
 
 export type SupportedLanguage = 'en' | 'es' | 'fr';
 
+export interface SpeakOptions {
+  rate?: number; // Multiplies the language's usual speaking rate, e.g. 0.6 for slow dictation
+}
+
+// Rate used to replay words slowly, e.g. in dictation
+export const SLOW_RATE = 0.6;
+
 export interface VoiceOption {
   name: string;
   lang: string;
@@ -152,7 +159,7 @@ export class TextToSpeech {
     };
   }
 
-  async speak(text: string, lang: SupportedLanguage = 'en') {
+  async speak(text: string, lang: SupportedLanguage = 'en', options: SpeakOptions = {}) {
     if (!this.synth) return;
 
     // Ensure voices are loaded before speaking
@@ -175,7 +182,7 @@ export class TextToSpeech {
 
     const settings = langSettings[lang];
     utterance.lang = settings.lang;
-    utterance.rate = text.length > 20 ? settings.rate - 0.1 : settings.rate;
+    utterance.rate = (text.length > 20 ? settings.rate - 0.1 : settings.rate) * (options.rate ?? 1);
     utterance.pitch = settings.pitch;
     utterance.volume = 0.9;
     
@@ -0,0 +1,124 @@
+// Listens to the learner saying a word and scores it against the card.
+// Recognition goes through an engine interface; the browser's Web Speech API is used by
+// default and another engine (e.g. a fake returning fixed transcripts) can be swapped in.
+
+import { AnswerDiff, diffAnswer } from './answerDiff';
+import type { SupportedLanguage } from './speech';
+
+export interface RecognitionResult {
+  transcript: string; // Most likely transcript
+  alternatives: string[]; // Every transcript the engine considered, most likely first
+}
+
+export interface SpeechRecognitionEngine {
+  isSupported(): boolean;
+  // Resolves once the learner stops speaking. Rejects with an Error whose message is one of
+  // 'not-supported', 'no-speech', 'not-allowed' or 'failed'
+  listen(language: SupportedLanguage): Promise<RecognitionResult>;
+  stop(): void; // Stops listening and resolves with what was heard so far
+}
+
+// Minimal typing of the Web Speech API, which TypeScript's DOM library doesn't include
+interface BrowserRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type BrowserRecognitionConstructor = new () => BrowserRecognition;
+
+const RECOGNITION_LOCALES: Record<SupportedLanguage, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+};
+
+const getRecognitionConstructor = (): BrowserRecognitionConstructor | undefined => {
+  const speechWindow = window as unknown as Record<string, BrowserRecognitionConstructor | undefined>;
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export class BrowserSpeechRecognition implements SpeechRecognitionEngine {
+  private recognition: BrowserRecognition | null = null;
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && !!getRecognitionConstructor();
+  }
+
+  listen(language: SupportedLanguage): Promise<RecognitionResult> {
+    return new Promise((resolve, reject) => {
+      const Recognition = getRecognitionConstructor();
+      if (!Recognition) {
+        reject(new Error('not-supported'));
+        return;
+      }
+
+      this.stop();
+      const recognition = new Recognition();
+      recognition.lang = RECOGNITION_LOCALES[language];
+      recognition.continuous = false;
+      recognition.interimResults = false;
+      recognition.maxAlternatives = 5;
+
+      let settled = false;
+      recognition.onresult = (event) => {
+        const alternatives = Array.from(event.results[0] || [], alternative => alternative.transcript.trim())
+          .filter(Boolean);
+        settled = true;
+        if (alternatives.length > 0) {
+          resolve({ transcript: alternatives[0], alternatives });
+        } else {
+          reject(new Error('no-speech'));
+        }
+      };
+      recognition.onerror = (event) => {
+        settled = true;
+        const denied = event.error === 'not-allowed' || event.error === 'service-not-allowed';
+        reject(new Error(denied ? 'not-allowed' : event.error === 'no-speech' ? 'no-speech' : 'failed'));
+      };
+      // Ending without a result means nothing was said before listening stopped. A session
+      // stopped for a new one ends late, and must not drop the new session's handle
+      recognition.onend = () => {
+        if (this.recognition === recognition) this.recognition = null;
+        if (!settled) reject(new Error('no-speech'));
+      };
+
+      this.recognition = recognition;
+      recognition.start();
+    });
+  }
+
+  stop() {
+    this.recognition?.stop();
+  }
+}
+
+let engine: SpeechRecognitionEngine = new BrowserSpeechRecognition();
+
+export function getSpeechRecognitionEngine(): SpeechRecognitionEngine {
+  return engine;
+}
+
+export function setSpeechRecognitionEngine(newEngine: SpeechRecognitionEngine) {
+  engine = newEngine;
+}
+
+// Recognisers add punctuation and capitals that the learner never "said"
+const stripPunctuation = (text: string) => text.replace(/[.,;:!?¡¿"«»]/g, ' ');
+
+// Compares what was heard with the expected word, using whichever alternative transcript
+// matches best since recognisers often hear the right word as their second guess
+export function scorePronunciation(result: RecognitionResult, expected: string): AnswerDiff & { transcript: string } {
+  const candidates = result.alternatives.length > 0 ? result.alternatives : [result.transcript];
+  const scored = candidates.map(transcript => ({
+    transcript,
+    ...diffAnswer(stripPunctuation(transcript), stripPunctuation(expected)),
+  }));
+  return scored.reduce((best, candidate) => (candidate.similarity > best.similarity ? candidate : best));
+}
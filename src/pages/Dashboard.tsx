@@ -1,15 +1,35 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useApp } from '@/contexts/AppContext';
 import { useI18n } from '@/contexts/I18nContext';
-import { BarChart3, BookOpen, Target, TrendingUp, Zap, Award } from 'lucide-react';
+import { BarChart3, BookOpen, Target, TrendingUp, Zap, Award, Trophy, Layers } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { getAllDecks, getDeckCounts, Deck, DeckCounts } from '@/lib/database';
 
 const Dashboard = () => {
-  const { stats } = useApp();
+  const { stats, refreshStats } = useApp();
   const { t } = useI18n();
   const navigate = useNavigate();
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [deckCounts, setDeckCounts] = useState<Record<string, DeckCounts>>({});
+
+  // Pick up answers given since the stats were last loaded (e.g. a session left midway)
+  useEffect(() => {
+    refreshStats();
+    loadDecks();
+  }, []);
+
+  const loadDecks = async () => {
+    try {
+      const [allDecks, counts] = await Promise.all([getAllDecks(), getDeckCounts()]);
+      setDecks(allDecks);
+      setDeckCounts(Object.fromEntries(counts.map(count => [count.deckId, count])));
+    } catch (error) {
+      console.error('Failed to load decks:', error);
+    }
+  };
 
   const statCards = [
     {
@@ -44,6 +64,14 @@ const Dashboard = () => {
       bgColor: 'bg-orange-100 dark:bg-orange-900',
       description: t('dashboard.stats.streak.desc')
     },
+    {
+      title: t('dashboard.stats.longest'),
+      value: stats.longestStreak,
+      icon: Trophy,
+      color: 'text-yellow-600 dark:text-yellow-400',
+      bgColor: 'bg-yellow-100 dark:bg-yellow-900',
+      description: t('dashboard.stats.longest.desc')
+    },
     {
       title: t('dashboard.stats.mastery'),
       value: `${stats.masteryPercentage}%`,
@@ -110,7 +138,7 @@ const Dashboard = () => {
                 {t('dashboard.goal.title')}
               </CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-4">
               {stats.dueToday === 0 ? (
                 <div className="text-center py-8">
                   <div className="text-4xl mb-2">🎉</div>
@@ -136,6 +164,25 @@ const Dashboard = () => {
                   </p>
                 </div>
               )}
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {stats.newCardsRemaining} {t('dashboard.goal.new_remaining')}
+              </p>
+              <div className="grid grid-cols-3 gap-2 pt-2 border-t dark:border-gray-700 text-center">
+                <div>
+                  <div className="text-lg font-semibold text-blue-600 dark:text-blue-400">{stats.newCardsToday}</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">{t('dashboard.goal.new_learned')}</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold text-red-600 dark:text-red-400">{stats.againToday}</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">{t('dashboard.goal.again')}</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold text-purple-600 dark:text-purple-400">
+                    {Math.round(stats.timeSpentToday / 60000)} {t('dashboard.goal.minutes')}
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">{t('dashboard.goal.time')}</div>
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -166,6 +213,50 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        {/* Decks */}
+        {decks.length > 0 && (
+          <Card className="dark:bg-gray-800 dark:border-gray-700">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 dark:text-white">
+                <Layers className="text-blue-600 dark:text-blue-400" size={20} />
+                {t('dashboard.decks.title')}
+              </CardTitle>
+              <CardDescription className="dark:text-gray-400">{t('dashboard.decks.subtitle')}</CardDescription>
+            </CardHeader>
+            <CardContent className="divide-y dark:divide-gray-700">
+              {decks.map(deck => {
+                const counts = deckCounts[deck.id];
+                return (
+                  <div key={deck.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: deck.color }} />
+                      <div className="min-w-0">
+                        <div className="font-medium truncate dark:text-white">{deck.name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {t('deck.card.count', { count: counts?.totalCards ?? 0 })} · {t('dashboard.decks.new', { count: counts?.newCards ?? 0 })}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-sm font-semibold text-green-600 dark:text-green-400">
+                        {t('dashboard.decks.due', { count: counts?.dueToday ?? 0 })}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/review?deck=${encodeURIComponent(deck.id)}`)}
+                        disabled={!counts?.dueToday}
+                      >
+                        {t('dashboard.decks.study')}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <Card className="dark:bg-gray-800 dark:border-gray-700">
           <CardHeader>
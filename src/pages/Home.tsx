@@ -72,7 +72,7 @@ const Home = () => {
 
         {/* Quick Stats */}
         {stats.totalCards > 0 && (
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
             <Card className="dark:bg-gray-800 dark:border-gray-700">
               <CardContent className="p-4 text-center">
                 <div className="text-2xl font-bold text-blue-600">{stats.totalCards}</div>
@@ -97,6 +97,13 @@ const Home = () => {
                 <div className="text-sm text-gray-600 dark:text-gray-400">{t('home.stats.mastery')}</div>
               </CardContent>
             </Card>
+            <Card className="col-span-2 md:col-span-1 dark:bg-gray-800 dark:border-gray-700">
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-red-600">{stats.currentStreak}</div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">{t('home.stats.streak')}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-500">{t('home.stats.best')}: {stats.longestStreak}</div>
+              </CardContent>
+            </Card>
           </div>
         )}
 
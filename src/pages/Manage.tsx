@@ -4,25 +4,81 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Plus, Edit, Trash2, Search, Volume2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Edit, Trash2, Search, Volume2, Download, FolderPlus, Pause, Play, Eye, EyeOff, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
 import { toast } from 'sonner';
 import { useApp } from '@/contexts/AppContext';
 import { useI18n } from '@/contexts/I18nContext';
-import { addCard, getAllCards, updateCard, deleteCard, Flashcard } from '@/lib/database';
+import {
+  addCard,
+  getAllCards,
+  updateCard,
+  deleteNote,
+  setNoteDirections,
+  setNoteImage,
+  setNoteAudio,
+  isDirectionStudied,
+  isCardActive,
+  DIRECTION_OPTIONS,
+  getDirectionsFromValue,
+  getDirectionsValue,
+  Flashcard,
+  Deck,
+  DEFAULT_DECK_ID,
+  getAllDecks,
+  addDeck,
+  updateDeck,
+  deleteDeck,
+  exportData,
+  matchesTags,
+  matchesQuery,
+  NoteDetails,
+  parseTags,
+  isCardBuried,
+  setCardSuspended,
+  buryCard,
+  unburyCard,
+  unsuspendAllCards,
+  unburyAllCards,
+  LEECH_TAG,
+} from '@/lib/database';
+import { formatInterval, getIntervalMinutes } from '@/lib/scheduler';
+import { getClozeFullText, isClozeText } from '@/lib/cloze';
 import { tts } from '@/lib/speech';
 import { useVoiceSettings } from '@/contexts/VoiceSettingsContext';
 import ConfirmDialog from '@/components/ConfirmDialog';
+import DeckDialog, { DeckDraft } from '@/components/DeckDialog';
+import BulkImport from '@/components/BulkImport';
+import NoteDetailsFields from '@/components/NoteDetailsFields';
+import NoteDetailsView from '@/components/NoteDetailsView';
+import ImagePicker from '@/components/ImagePicker';
+import CardImage from '@/components/CardImage';
+import AudioRecordingInput from '@/components/AudioRecordingInput';
 import { useConfirmDialog } from '@/hooks/useConfirmDialog';
 
 const Manage = () => {
   const { refreshStats } = useApp();
   const { t } = useI18n();
-  const { speak, practiceLanguage } = useVoiceSettings();
+  const { speakCard, practiceLanguage } = useVoiceSettings();
   const [cards, setCards] = useState<Flashcard[]>([]);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [selectedDeckId, setSelectedDeckId] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [editingCard, setEditingCard] = useState<Flashcard | null>(null);
-  const [newCard, setNewCard] = useState({ french: '', english: '' });
+  const [editingTags, setEditingTags] = useState('');
+  const [editingDirections, setEditingDirections] = useState('deck'); // 'deck' or a DIRECTION_OPTIONS value
+  const [newCard, setNewCard] = useState({ front: '', back: '', tags: '', deckId: DEFAULT_DECK_ID });
+  const [newDetails, setNewDetails] = useState<NoteDetails>({});
+  const [showNewDetails, setShowNewDetails] = useState(false);
+  const [newImage, setNewImage] = useState<Blob | null>(null);
+  const [newAudio, setNewAudio] = useState<Blob | null>(null);
+  const [editingImage, setEditingImage] = useState<Blob | null | undefined>(); // Undefined while unchanged
+  const [editingAudio, setEditingAudio] = useState<Blob | null | undefined>(); // Undefined while unchanged
   const [isLoading, setIsLoading] = useState(true);
+  const [isDeckDialogOpen, setIsDeckDialogOpen] = useState(false);
+  const [editingDeck, setEditingDeck] = useState<Deck | null>(null);
 
   const {
     isOpen: isDeleteDialogOpen,
@@ -37,10 +93,16 @@ const Manage = () => {
     loadCards();
   }, []);
 
+  // New cards go into the deck being browsed
+  useEffect(() => {
+    setNewCard(card => ({ ...card, deckId: selectedDeckId === 'all' ? DEFAULT_DECK_ID : selectedDeckId }));
+  }, [selectedDeckId]);
+
   const loadCards = async () => {
     try {
-      const allCards = await getAllCards();
+      const [allCards, allDecks] = await Promise.all([getAllCards(), getAllDecks()]);
       setCards(allCards);
+      setDecks(allDecks);
     } catch (error) {
       console.error('Failed to load cards:', error);
       toast.error(t('error.load.cards'));
@@ -49,17 +111,129 @@ const Manage = () => {
     }
   };
 
-  const filteredCards = cards.filter(card =>
-    card.french.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    card.english.toLowerCase().includes(searchTerm.toLowerCase())
+  const selectedDeck = decks.find(deck => deck.id === selectedDeckId);
+  const deckById = new Map(decks.map(deck => [deck.id, deck]));
+  const countCards = (deckId: string) => cards.filter(card => card.deckId === deckId).length;
+
+  const allTags = [...new Set(cards.flatMap(card => card.tags))].sort();
+
+  // The cards of a word are listed together, forward card (or first cloze) first; they share
+  // front, back and tags
+  const noteCards = new Map<string, Flashcard[]>();
+  for (const card of cards) {
+    noteCards.set(card.noteId, [...(noteCards.get(card.noteId) || []), card]);
+  }
+  const notes = [...noteCards.values()].map(group =>
+    group.sort((a, b) =>
+      (a.clozeNumber ?? 0) - (b.clozeNumber ?? 0) ||
+      (a.direction === 'forward' ? 0 : 1) - (b.direction === 'forward' ? 0 : 1)
+    )
   );
 
+  const filteredNotes = notes.filter(([card]) =>
+    (selectedDeckId === 'all' || card.deckId === selectedDeckId) &&
+    matchesTags(card, selectedTags) &&
+    matchesQuery(card, searchTerm)
+  );
+
+  const toggleTagFilter = (tag: string) => {
+    setSelectedTags(selectedTags.includes(tag)
+      ? selectedTags.filter(selected => selected !== tag)
+      : [...selectedTags, tag]);
+  };
+
+  const startEditing = (card: Flashcard) => {
+    setEditingCard(card);
+    setEditingTags(card.tags.join(' '));
+    setEditingDirections(card.directions ? getDirectionsValue(card.directions) : 'deck');
+    setEditingImage(undefined);
+    setEditingAudio(undefined);
+  };
+
+  const handleSaveDeck = async (draft: DeckDraft) => {
+    try {
+      if (editingDeck) {
+        await updateDeck({ ...editingDeck, ...draft });
+        toast.success(t('success.deck.updated'));
+      } else {
+        const deck = await addDeck(draft);
+        setSelectedDeckId(deck.id);
+        toast.success(t('success.deck.created'));
+      }
+      await loadCards();
+    } catch (error) {
+      console.error('Failed to save deck:', error);
+      toast.error(t('error.deck.save'));
+    }
+  };
+
+  const openDeckDialog = (deck: Deck | null) => {
+    setEditingDeck(deck);
+    setIsDeckDialogOpen(true);
+  };
+
+  const handleDeleteDeck = async (deck: Deck) => {
+    const confirmed = await confirmDelete({
+      title: t('confirm.delete.deck.title'),
+      description: t('confirm.delete.deck.description', { name: deck.name, count: countCards(deck.id) }),
+      confirmText: t('confirm.delete.card.confirm'),
+      cancelText: t('confirm.cancel'),
+      variant: 'destructive'
+    });
+
+    if (confirmed) {
+      try {
+        await deleteDeck(deck.id);
+        setSelectedDeckId('all');
+        await loadCards();
+        await refreshStats();
+        toast.success(t('success.deck.deleted'));
+      } catch (error) {
+        console.error('Failed to delete deck:', error);
+        toast.error(t('error.deck.delete'));
+      }
+    }
+  };
+
+  const handleExportDeck = async (deck: Deck) => {
+    try {
+      const data = await exportData(deck.id);
+      // Same file format as the full export in Settings, so it can be imported from there
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `deck-${deck.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      toast.success(t('success.export'));
+    } catch (error) {
+      console.error('Deck export failed:', error);
+      toast.error(t('error.export'));
+    }
+  };
+
+  // Cloze sentences don't need a translation, the sentence itself is the question
+  const isComplete = (front: string, back: string) => !!front.trim() && (!!back.trim() || isClozeText(front));
+
   const handleAddCard = async () => {
-    if (!newCard.french.trim() || !newCard.english.trim()) return;
+    if (!isComplete(newCard.front, newCard.back)) return;
 
     try {
-      await addCard(newCard.french.trim(), newCard.english.trim());
-      setNewCard({ french: '', english: '' });
+      const card = await addCard(newCard.front.trim(), newCard.back.trim(), newCard.deckId, parseTags(newCard.tags), newDetails);
+      if (newImage) {
+        await setNoteImage(card.noteId, newImage);
+      }
+      if (newAudio) {
+        await setNoteAudio(card.noteId, newAudio);
+      }
+      // Tags are kept so a batch of cards on the same topic can be added in a row
+      setNewCard({ ...newCard, front: '', back: '' });
+      setNewDetails({});
+      setNewImage(null);
+      setNewAudio(null);
       await loadCards();
       await refreshStats();
       toast.success(t('success.card.added'));
@@ -70,10 +244,24 @@ const Manage = () => {
   };
 
   const handleUpdateCard = async () => {
-    if (!editingCard || !editingCard.french.trim() || !editingCard.english.trim()) return;
+    if (!editingCard || !isComplete(editingCard.front, editingCard.back)) return;
 
     try {
-      await updateCard(editingCard.id, editingCard.french.trim(), editingCard.english.trim());
+      await updateCard(editingCard.id, editingCard.front.trim(), editingCard.back.trim(), parseTags(editingTags), editingCard);
+      const previousDirections = editingCard.directions ? getDirectionsValue(editingCard.directions) : 'deck';
+      if (editingDirections !== previousDirections) {
+        await setNoteDirections(
+          editingCard.noteId,
+          editingDirections === 'deck' ? undefined : getDirectionsFromValue(editingDirections)
+        );
+        await refreshStats();
+      }
+      if (editingImage !== undefined) {
+        await setNoteImage(editingCard.noteId, editingImage);
+      }
+      if (editingAudio !== undefined) {
+        await setNoteAudio(editingCard.noteId, editingAudio);
+      }
       setEditingCard(null);
       await loadCards();
       toast.success(t('success.card.updated'));
@@ -83,7 +271,59 @@ const Manage = () => {
     }
   };
 
-  const handleDeleteCard = async (cardId: string) => {
+  const suspendedCount = cards.filter(card => card.suspended).length;
+  const buriedCount = cards.filter(card => isCardBuried(card)).length;
+  const leechCount = cards.filter(card => card.tags.includes(LEECH_TAG)).length;
+  const isShowingLeeches = selectedTags.length === 1 && selectedTags[0] === LEECH_TAG;
+
+  // Suspending and burying apply to every direction of the word
+  const handleToggleSuspend = async (note: Flashcard[]) => {
+    const suspended = note.every(card => card.suspended);
+    try {
+      for (const card of note) {
+        await setCardSuspended(card.id, !suspended);
+      }
+      await loadCards();
+      await refreshStats();
+      toast.success(t(suspended ? 'success.card.unsuspended' : 'success.card.suspended'));
+    } catch (error) {
+      console.error('Failed to suspend card:', error);
+      toast.error(t('error.card.update'));
+    }
+  };
+
+  const handleToggleBury = async (note: Flashcard[]) => {
+    const buried = note.every(card => isCardBuried(card));
+    try {
+      for (const card of note) {
+        if (buried) {
+          await unburyCard(card.id);
+        } else {
+          await buryCard(card.id);
+        }
+      }
+      await loadCards();
+      await refreshStats();
+      toast.success(t(buried ? 'success.card.unburied' : 'success.card.buried'));
+    } catch (error) {
+      console.error('Failed to bury card:', error);
+      toast.error(t('error.card.update'));
+    }
+  };
+
+  const handleRestoreAll = async (action: 'unsuspend' | 'unbury') => {
+    try {
+      const count = action === 'unsuspend' ? await unsuspendAllCards() : await unburyAllCards();
+      await loadCards();
+      await refreshStats();
+      toast.success(t(action === 'unsuspend' ? 'success.cards.unsuspended' : 'success.cards.unburied', { count }));
+    } catch (error) {
+      console.error(`Failed to ${action} cards:`, error);
+      toast.error(t('error.card.update'));
+    }
+  };
+
+  const handleDeleteCard = async (noteId: string) => {
     const confirmed = await confirmDelete({
       title: t('confirm.delete.card.title'),
       description: t('confirm.delete.card.description'),
@@ -94,7 +334,7 @@ const Manage = () => {
 
     if (confirmed) {
       try {
-        await deleteCard(cardId);
+        await deleteNote(noteId);
         await loadCards();
         await refreshStats();
         toast.success(t('success.card.deleted'));
@@ -105,9 +345,53 @@ const Manage = () => {
     }
   };
 
-  const speakFrench = (text: string) => {
-    // Use the selected practice language instead of hardcoding 'fr'
-    speak(text, practiceLanguage);
+  const speakFront = (card: Flashcard) => {
+    // Cards are read in their deck's language, the practice language is only a fallback
+    speakCard(card, deckById.get(card.deckId)?.sourceLanguage || practiceLanguage);
+  };
+
+  // Field labels name the languages of the deck the card belongs to
+  const getFieldLabels = (deckId: string) => {
+    const deck = deckById.get(deckId);
+    const source = t(`language.${deck?.sourceLanguage || practiceLanguage}`);
+    const target = t(`language.${deck?.targetLanguage || 'en'}`);
+    return {
+      frontLabel: t('manage.front.label', { language: source }),
+      frontPlaceholder: t('manage.front.placeholder', { language: source }),
+      backLabel: t('manage.back.label', { language: target }),
+      backPlaceholder: t('manage.back.placeholder', { language: target }),
+    };
+  };
+
+  const getDeckLanguages = (deckId: string) => {
+    const deck = deckById.get(deckId);
+    return {
+      sourceLanguage: deck?.sourceLanguage || practiceLanguage,
+      targetLanguage: deck?.targetLanguage || 'en',
+    };
+  };
+
+  const newCardLabels = getFieldLabels(newCard.deckId);
+
+  // Progress of each direction of a word, e.g. "FR → EN: Review · 12d", or of each cloze of a sentence
+  const renderDirectionProgress = (note: Flashcard[]) => {
+    const deck = deckById.get(note[0].deckId);
+    const source = (deck?.sourceLanguage || practiceLanguage).toUpperCase();
+    const target = (deck?.targetLanguage || 'en').toUpperCase();
+    return (
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400 md:col-span-2">
+        {note.map(card => (
+          <span key={card.id}>
+            {card.clozeNumber !== undefined
+              ? t('manage.cloze.number', { number: card.clozeNumber })
+              : card.direction === 'forward' ? `${source} → ${target}` : `${target} → ${source}`}
+            : {t(`manage.state.${card.cardState}`)}
+            {card.cardState !== 'new' && ` · ${formatInterval(getIntervalMinutes(card), t)}`}
+            {!isDirectionStudied(card, deck) && ` (${t('manage.direction.off')})`}
+          </span>
+        ))}
+      </div>
+    );
   };
 
   return (
@@ -123,6 +407,74 @@ const Manage = () => {
             <p className="text-gray-600 dark:text-gray-400">{t('manage.subtitle')}</p>
           </div>
 
+          {/* Decks */}
+          <Card className="dark:bg-gray-800 dark:border-gray-700">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="dark:text-white">{t('deck.list.title')}</CardTitle>
+              <Button variant="outline" size="sm" onClick={() => openDeckDialog(null)}>
+                <FolderPlus className="mr-2" size={16} />
+                {t('deck.create.button')}
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setSelectedDeckId('all')}
+                  className={`rounded-md border p-3 text-left transition-colors dark:border-gray-600 ${selectedDeckId === 'all' ? 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                >
+                  <div className="font-medium dark:text-white">{t('deck.all')}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{t('deck.card.count', { count: cards.length })}</div>
+                </button>
+                {decks.map(deck => (
+                  <button
+                    key={deck.id}
+                    type="button"
+                    onClick={() => setSelectedDeckId(deck.id)}
+                    className={`rounded-md border p-3 text-left transition-colors dark:border-gray-600 ${selectedDeckId === deck.id ? 'border-blue-500 bg-blue-50 dark:border-blue-400 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: deck.color }} />
+                      <span className="font-medium truncate dark:text-white">{deck.name}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {deck.sourceLanguage.toUpperCase()} → {deck.targetLanguage.toUpperCase()} · {t('deck.card.count', { count: countCards(deck.id) })}
+                    </div>
+                  </button>
+                ))}
+              </div>
+
+              {selectedDeck && (
+                <div className="flex flex-wrap items-center justify-between gap-2 border-t pt-4 dark:border-gray-700">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {selectedDeck.description || t('deck.no.description')}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => openDeckDialog(selectedDeck)}>
+                      <Edit className="mr-2" size={14} />
+                      {t('deck.edit.button')}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleExportDeck(selectedDeck)}>
+                      <Download className="mr-2" size={14} />
+                      {t('deck.export.button')}
+                    </Button>
+                    {selectedDeck.id !== DEFAULT_DECK_ID && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteDeck(selectedDeck)}
+                        className="hover:text-red-600 dark:hover:text-red-400"
+                      >
+                        <Trash2 className="mr-2" size={14} />
+                        {t('deck.delete.button')}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Add New Card */}
           <Card className="dark:bg-gray-800 dark:border-gray-700">
             <CardHeader>
@@ -131,30 +483,76 @@ const Manage = () => {
             <CardContent className="space-y-4">
               <div className="grid md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="french" className="dark:text-white">{t('manage.french.label')}</Label>
+                  <Label htmlFor="front" className="dark:text-white">{newCardLabels.frontLabel}</Label>
                   <Input
-                    id="french"
-                    value={newCard.french}
-                    onChange={(e) => setNewCard({ ...newCard, french: e.target.value })}
-                    placeholder={t('manage.french.placeholder')}
+                    id="front"
+                    value={newCard.front}
+                    onChange={(e) => setNewCard({ ...newCard, front: e.target.value })}
+                    placeholder={newCardLabels.frontPlaceholder}
                     className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                   />
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {isClozeText(newCard.front) ? t('manage.cloze.detected') : t('manage.cloze.hint')}
+                  </p>
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="english" className="dark:text-white">{t('manage.english.label')}</Label>
+                  <Label htmlFor="back" className="dark:text-white">{newCardLabels.backLabel}</Label>
                   <Input
-                    id="english"
-                    value={newCard.english}
-                    onChange={(e) => setNewCard({ ...newCard, english: e.target.value })}
-                    placeholder={t('manage.english.placeholder')}
+                    id="back"
+                    value={newCard.back}
+                    onChange={(e) => setNewCard({ ...newCard, back: e.target.value })}
+                    placeholder={newCardLabels.backPlaceholder}
                     className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                   />
                 </div>
               </div>
-              <Button onClick={handleAddCard} className="w-full">
-                <Plus className="mr-2" size={16} />
-                {t('manage.add.button')}
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="dark:text-white">{t('deck.label')}</Label>
+                  <Select value={newCard.deckId} onValueChange={(value) => setNewCard({ ...newCard, deckId: value })}>
+                    <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {decks.map(deck => (
+                        <SelectItem key={deck.id} value={deck.id}>{deck.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tags" className="dark:text-white">{t('manage.tags.label')}</Label>
+                  <Input
+                    id="tags"
+                    value={newCard.tags}
+                    onChange={(e) => setNewCard({ ...newCard, tags: e.target.value })}
+                    placeholder={t('manage.tags.placeholder')}
+                    className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="dark:text-white">{t('image.label')}</Label>
+                <ImagePicker image={newImage} onChange={setNewImage} />
+              </div>
+              <div className="space-y-2">
+                <Label className="dark:text-white">{t('recording.label')}</Label>
+                <AudioRecordingInput recording={newAudio} onChange={setNewAudio} />
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setShowNewDetails(!showNewDetails)}>
+                {showNewDetails ? <ChevronUp className="mr-2" size={14} /> : <ChevronDown className="mr-2" size={14} />}
+                {showNewDetails ? t('details.hide') : t('details.show')}
               </Button>
+              {showNewDetails && (
+                <NoteDetailsFields details={newDetails} onChange={setNewDetails} {...getDeckLanguages(newCard.deckId)} />
+              )}
+              <div className="grid md:grid-cols-2 gap-2">
+                <Button onClick={handleAddCard} className="w-full">
+                  <Plus className="mr-2" size={16} />
+                  {t('manage.add.button')}
+                </Button>
+                <BulkImport deckId={newCard.deckId} onImportComplete={() => { loadCards(); refreshStats(); }} />
+              </div>
             </CardContent>
           </Card>
 
@@ -170,6 +568,48 @@ const Manage = () => {
                   className="pl-10 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
                 />
               </div>
+              {allTags.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 mt-4">
+                  <span className="text-sm text-gray-600 dark:text-gray-400 mr-1">{t('manage.tags.filter')}</span>
+                  {allTags.map(tag => (
+                    <Badge
+                      key={tag}
+                      variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+                      onClick={() => toggleTagFilter(tag)}
+                      className={`cursor-pointer ${selectedTags.includes(tag) ? '' : 'dark:text-gray-300'}`}
+                    >
+                      #{tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {(suspendedCount > 0 || buriedCount > 0 || leechCount > 0) && (
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {leechCount > 0 && (
+                    <Button
+                      variant={isShowingLeeches ? 'destructive' : 'outline'}
+                      size="sm"
+                      onClick={() => setSelectedTags(isShowingLeeches ? [] : [LEECH_TAG])}
+                      title={t('manage.leeches.description')}
+                    >
+                      <AlertTriangle className="mr-2" size={14} />
+                      {t('manage.leeches', { count: leechCount })}
+                    </Button>
+                  )}
+                  {suspendedCount > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => handleRestoreAll('unsuspend')}>
+                      <Play className="mr-2" size={14} />
+                      {t('manage.unsuspend.all', { count: suspendedCount })}
+                    </Button>
+                  )}
+                  {buriedCount > 0 && (
+                    <Button variant="outline" size="sm" onClick={() => handleRestoreAll('unbury')}>
+                      <Eye className="mr-2" size={14} />
+                      {t('manage.unbury.all', { count: buriedCount })}
+                    </Button>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -177,84 +617,171 @@ const Manage = () => {
           <div className="space-y-4">
             {isLoading ? (
               <div className="text-center py-8 dark:text-white">{t('manage.loading')}</div>
-            ) : filteredCards.length === 0 ? (
+            ) : filteredNotes.length === 0 ? (
               <Card className="dark:bg-gray-800 dark:border-gray-700">
                 <CardContent className="py-8 text-center">
                   <p className="text-gray-600 dark:text-gray-400">
-                    {searchTerm ? t('manage.no.match') : t('manage.no.cards')}
+                    {searchTerm || selectedTags.length > 0 ? t('manage.no.match') : t('manage.no.cards')}
                   </p>
                 </CardContent>
               </Card>
             ) : (
-              filteredCards.map((card) => (
-                <Card key={card.id} className="dark:bg-gray-800 dark:border-gray-700">
-                  <CardContent className="pt-6">
-                    {editingCard?.id === card.id ? (
-                      <div className="space-y-4">
-                        <div className="grid md:grid-cols-2 gap-4">
-                          <Input
-                            value={editingCard.french}
-                            onChange={(e) => setEditingCard({ ...editingCard, french: e.target.value })}
-                            placeholder={t('manage.french.placeholder')}
-                            className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+              filteredNotes.map((note) => {
+                const card = note[0];
+                const suspended = note.every(noteCard => noteCard.suspended);
+                const buried = note.every(noteCard => isCardBuried(noteCard));
+                const isActive = note.some(noteCard => isCardActive(noteCard, new Date(), deckById.get(noteCard.deckId)));
+                return (
+                  <Card
+                    key={card.noteId}
+                    className={`dark:bg-gray-800 dark:border-gray-700 ${isActive ? '' : 'opacity-60'}`}
+                  >
+                    <CardContent className="pt-6">
+                      {editingCard?.id === card.id ? (
+                        <div className="space-y-4">
+                          <div className="grid md:grid-cols-2 gap-4">
+                            <Input
+                              value={editingCard.front}
+                              onChange={(e) => setEditingCard({ ...editingCard, front: e.target.value })}
+                              placeholder={getFieldLabels(editingCard.deckId).frontPlaceholder}
+                              className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                            />
+                            <Input
+                              value={editingCard.back}
+                              onChange={(e) => setEditingCard({ ...editingCard, back: e.target.value })}
+                              placeholder={getFieldLabels(editingCard.deckId).backPlaceholder}
+                              className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                            />
+                          </div>
+                          <div className="grid md:grid-cols-2 gap-4">
+                            <Input
+                              value={editingTags}
+                              onChange={(e) => setEditingTags(e.target.value)}
+                              placeholder={t('manage.tags.placeholder')}
+                              className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                            />
+                            {!isClozeText(editingCard.front) && (
+                              <Select value={editingDirections} onValueChange={setEditingDirections}>
+                                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="deck">
+                                    {t('manage.directions.deck', {
+                                      directions: t(`deck.directions.${getDirectionsValue(deckById.get(editingCard.deckId)?.directions || ['forward'])}`),
+                                    })}
+                                  </SelectItem>
+                                  {DIRECTION_OPTIONS.map(option => (
+                                    <SelectItem key={option.value} value={option.value}>{t(`deck.directions.${option.value}`)}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                          <ImagePicker
+                            image={editingImage === undefined ? editingCard.imageId : editingImage}
+                            onChange={setEditingImage}
                           />
-                          <Input
-                            value={editingCard.english}
-                            onChange={(e) => setEditingCard({ ...editingCard, english: e.target.value })}
-                            placeholder={t('manage.english.placeholder')}
-                            className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                          <AudioRecordingInput
+                            recording={editingAudio === undefined ? editingCard.audioId : editingAudio}
+                            onChange={setEditingAudio}
                           />
+                          <NoteDetailsFields
+                            details={editingCard}
+                            onChange={(details) => setEditingCard({ ...editingCard, ...details })}
+                            {...getDeckLanguages(editingCard.deckId)}
+                          />
+                          <div className="flex gap-2">
+                            <Button onClick={handleUpdateCard} size="sm">
+                              {t('manage.save')}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              onClick={() => setEditingCard(null)}
+                              size="sm"
+                            >
+                              {t('manage.cancel')}
+                            </Button>
+                          </div>
                         </div>
-                        <div className="flex gap-2">
-                          <Button onClick={handleUpdateCard} size="sm">
-                            {t('manage.save')}
-                          </Button>
-                          <Button
-                            variant="outline"
-                            onClick={() => setEditingCard(null)}
-                            size="sm"
-                          >
-                            {t('manage.cancel')}
-                          </Button>
-                        </div>
-                      </div>
-                    ) : (
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1 grid md:grid-cols-2 gap-4">
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium dark:text-white">{card.french}</span>
+                      ) : (
+                        <div className="flex items-center justify-between">
+                          <div className="flex-1 grid md:grid-cols-2 gap-4">
+                            <div className="flex items-center gap-2">
+                              {selectedDeckId === 'all' && (
+                                <span
+                                  className="w-2 h-2 rounded-full shrink-0"
+                                  style={{ backgroundColor: deckById.get(card.deckId)?.color }}
+                                />
+                              )}
+                              <CardImage image={card.imageId} className="h-10 w-10 shrink-0" />
+                              <span className="font-medium dark:text-white">
+                                {isClozeText(card.front) ? getClozeFullText(card.front) : card.front}
+                              </span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => speakFront(card)}
+                              >
+                                <Volume2 size={14} />
+                              </Button>
+                            </div>
+                            <div className="text-gray-600 dark:text-gray-400">{card.back}</div>
+                            <NoteDetailsView details={card} compact />
+                            {renderDirectionProgress(note)}
+                            {(card.tags.length > 0 || suspended || buried) && (
+                              <div className="flex flex-wrap gap-1 md:col-span-2">
+                                {suspended && (
+                                  <Badge variant="outline" className="text-xs dark:text-gray-300">{t('manage.status.suspended')}</Badge>
+                                )}
+                                {buried && (
+                                  <Badge variant="outline" className="text-xs dark:text-gray-300">{t('manage.status.buried')}</Badge>
+                                )}
+                                {card.tags.map(tag => (
+                                  <Badge key={tag} variant={tag === LEECH_TAG ? 'destructive' : 'secondary'} className="text-xs">#{tag}</Badge>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleToggleBury(note)}
+                              title={buried ? t('manage.unbury') : t('manage.bury')}
+                            >
+                              {buried ? <Eye size={14} /> : <EyeOff size={14} />}
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => speakFrench(card.french)}
+                              onClick={() => handleToggleSuspend(note)}
+                              title={suspended ? t('manage.unsuspend') : t('manage.suspend')}
                             >
-                              <Volume2 size={14} />
+                              {suspended ? <Play size={14} /> : <Pause size={14} />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => startEditing(card)}
+                            >
+                              <Edit size={14} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteCard(card.noteId)}
+                              className="hover:text-red-600 dark:hover:text-red-400"
+                            >
+                              <Trash2 size={14} />
                             </Button>
                           </div>
-                          <div className="text-gray-600 dark:text-gray-400">{card.english}</div>
                         </div>
-                        <div className="flex gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => setEditingCard(card)}
-                          >
-                            <Edit size={14} />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteCard(card.id)}
-                            className="hover:text-red-600 dark:hover:text-red-400"
-                          >
-                            <Trash2 size={14} />
-                          </Button>
-                        </div>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              ))
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })
             )}
           </div>
         </div>
@@ -271,6 +798,13 @@ const Manage = () => {
         cancelText={deleteDialogOptions.cancelText}
         variant={deleteDialogOptions.variant}
       />
+
+      <DeckDialog
+        open={isDeckDialogOpen}
+        onOpenChange={setIsDeckDialogOpen}
+        deck={editingDeck}
+        onSave={handleSaveDeck}
+      />
     </>
   );
 };
@@ -1,28 +1,192 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { BookOpen, Volume2, RotateCcw, CheckCircle, Clock, Calendar } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, Volume2, RotateCcw, CheckCircle, Clock, Calendar, Undo2, EyeOff, Pause, Keyboard, FlipHorizontal, ListChecks, Headphones, Snail, Mic, Square } from 'lucide-react';
 import { useApp } from '@/contexts/AppContext';
 import { useI18n } from '@/contexts/I18nContext';
-import { getDueCards, getAllCards, updateCardReview, Flashcard, getLearningConfig } from '@/lib/database';
-import { tts } from '@/lib/speech';
+import { useSearchParams } from 'react-router-dom';
+import { toast } from 'sonner';
+import {
+  getDueCards,
+  getAllCards,
+  getFilteredFlashcards,
+  getAllDecks,
+  getAllTags,
+  parseTags,
+  CardFilter,
+  updateCardReview,
+  undoCardReview,
+  isCardActive,
+  setCardSuspended,
+  buryCard,
+  previewCardReview,
+  getDailyLimits,
+  DailyLimits,
+  Deck,
+  Flashcard,
+  ReviewDifficulty,
+} from '@/lib/database';
+import { formatInterval, getIntervalMinutes } from '@/lib/scheduler';
+import { AnswerDiff, diffAnswer } from '@/lib/answerDiff';
+import { buildChoices, getAnswerText } from '@/lib/distractors';
+import { getSpokenText, isClozeCard } from '@/lib/cloze';
+import { getSpeechRecognitionEngine, scorePronunciation } from '@/lib/speechRecognition';
+import AnswerDiffView from '@/components/AnswerDiffView';
+import ClozeText from '@/components/ClozeText';
+import NoteDetailsView from '@/components/NoteDetailsView';
+import CardImage from '@/components/CardImage';
+import { tts, SLOW_RATE, SpeakOptions } from '@/lib/speech';
 import { useVoiceSettings } from '@/contexts/VoiceSettingsContext';
 
+// An answer given in this session, with the card as it was before it was answered
+interface AnsweredCard {
+  card: Flashcard;
+  logId: string;
+  buriedSiblings: Flashcard[];
+  previousStudyDate?: Date;
+}
+
+// Flip shows the answer on request and the learner grades themselves; type has them type
+// the answer first and suggests a grade from the mistakes; choice grades a pick among a few options;
+// dictation reads the word out without showing it and has them type what they heard;
+// speaking shows the translation and listens to them say the word
+type AnswerMode = 'flip' | 'type' | 'choice' | 'dictation' | 'speaking';
+
+const ANSWER_MODES: { mode: AnswerMode; icon: typeof Keyboard }[] = [
+  { mode: 'flip', icon: FlipHorizontal },
+  { mode: 'type', icon: Keyboard },
+  { mode: 'choice', icon: ListChecks },
+  { mode: 'dictation', icon: Headphones },
+  { mode: 'speaking', icon: Mic },
+];
+
+const ANSWER_MODE_KEY = 'reviewAnswerMode';
+
+const CHOICE_COUNT = 4; // Options shown in multiple-choice mode, the answer included
+
+const loadAnswerMode = (): AnswerMode => {
+  const mode = localStorage.getItem(ANSWER_MODE_KEY);
+  return ANSWER_MODES.some(option => option.mode === mode) ? mode as AnswerMode : 'flip';
+};
+
 const Review = () => {
   const { refreshStats } = useApp();
   const { t } = useI18n();
-  const { speak, practiceLanguage } = useVoiceSettings();
+  const { speakCard, practiceLanguage } = useVoiceSettings();
   const [cards, setCards] = useState<Flashcard[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [showAnswer, setShowAnswer] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [sessionType, setSessionType] = useState<'due' | 'all'>('due');
+  const [previews, setPreviews] = useState<Record<ReviewDifficulty, Flashcard> | null>(null);
+  const [dailyLimits, setDailyLimits] = useState<DailyLimits | null>(null);
+  const [searchParams] = useSearchParams();
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  // 'all' studies every deck; a deck and tags can be preselected with ?deck=<id>&tags=food,travel
+  const [deckId, setDeckId] = useState<string>(() => searchParams.get('deck') || 'all');
+  const [selectedTags, setSelectedTags] = useState<string[]>(() => parseTags(searchParams.get('tags') || ''));
+  const sessionFilter: CardFilter = { deckId: deckId === 'all' ? undefined : deckId, tags: selectedTags };
+  const [undoStack, setUndoStack] = useState<AnsweredCard[]>([]);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [answerMode, setAnswerMode] = useState<AnswerMode>(loadAnswerMode);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerDiff, setAnswerDiff] = useState<AnswerDiff | null>(null);
+  const [choicePool, setChoicePool] = useState<Flashcard[]>([]); // Cards distractors are drawn from
+  const [choices, setChoices] = useState<string[]>([]);
+  const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState<string | null>(null); // What speech recognition heard
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const cardShownAtRef = useRef<number>(Date.now());
+  const undoRef = useRef<() => void>(() => {});
+  const acceptSuggestionRef = useRef<(() => void) | null>(null);
+  const chooseRef = useRef<((index: number) => void) | null>(null);
+  const isAnsweringRef = useRef(false); // Set while an answer is being saved, so it is only saved once
+  const listeningCardIdRef = useRef<string | null>(null); // Card the pending recognition belongs to
+  const currentCardId = cards[currentIndex]?.id;
 
   useEffect(() => {
     loadDueCards();
+    Promise.all([getAllDecks(), getAllTags()])
+      .then(([allDecks, allTags]) => {
+        setDecks(allDecks);
+        setTags(allTags);
+      })
+      .catch(error => console.error('Failed to load decks and tags:', error));
+  }, []);
+
+  // Ctrl+Z (Cmd+Z on Mac) or U undoes the last answer
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      const isUndoShortcut = (event.key === 'z' && (event.ctrlKey || event.metaKey)) ||
+        (event.key === 'u' && !event.ctrlKey && !event.metaKey && !event.altKey);
+      if (isUndoShortcut) {
+        event.preventDefault();
+        undoRef.current();
+      } else if (event.key === 'Enter' && acceptSuggestionRef.current) {
+        // Typed answers and multiple choice: Enter grades the card with the suggested grade.
+        // A held Enter that submitted the typed answer must not grade it before the diff is seen
+        event.preventDefault();
+        if (!event.repeat) acceptSuggestionRef.current();
+      } else if (/^[1-9]$/.test(event.key) && !event.repeat && chooseRef.current) {
+        chooseRef.current(Number(event.key) - 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  // Restart the answer timer and clear the typed or spoken answer whenever a different card is shown
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+    setTypedAnswer('');
+    setAnswerDiff(null);
+    setTranscript(null);
+    if (listeningCardIdRef.current) {
+      listeningCardIdRef.current = null;
+      getSpeechRecognitionEngine().stop();
+    }
+  }, [currentCardId]);
+
+  // Distractors can come from any deck, so the whole collection is loaded once
+  useEffect(() => {
+    if (answerMode === 'choice' && choicePool.length === 0) {
+      getAllCards()
+        .then(setChoicePool)
+        .catch(error => console.error('Failed to load cards for multiple choice:', error));
+    }
+  }, [answerMode, choicePool.length]);
+
+  // Ask the scheduler what each answer button would do to the current card,
+  // and pick the options for it in multiple-choice mode
+  useEffect(() => {
+    const card = cards[currentIndex];
+    setSelectedChoice(null);
+    setChoices(card && answerMode === 'choice' ? buildChoices(card, choicePool, CHOICE_COUNT) : []);
+    if (!card) {
+      setPreviews(null);
+      return;
+    }
+
+    // Never show the previous card's intervals while the new ones are computed
+    setPreviews(null);
+    let cancelled = false;
+    previewCardReview(card)
+      .then(result => {
+        if (!cancelled) setPreviews(result);
+      })
+      .catch(error => console.error('Failed to preview card review:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentCardId, answerMode, choicePool]);
+
   // Start dynamic due card checking when we have cards
   useEffect(() => {
     if (cards.length > 0) {
@@ -35,18 +199,21 @@ const Review = () => {
     return () => {
       stopDynamicDueCardChecking();
     };
-  }, [cards.length, sessionType]);
+  }, [cards.length, sessionType, deckId, selectedTags]);
 
-  // Auto-play audio when card changes
+  // Auto-play audio when card changes; reverse cards, cloze sentences and speaking ask for the front,
+  // so it is only read with the answer, except in dictation where hearing it is the question
   useEffect(() => {
-    if (cards.length > 0 && !showAnswer) {
+    const card = cards[currentIndex];
+    const asksForFront = answerMode === 'speaking' || card?.direction === 'reverse' || (card && isClozeCard(card));
+    if (cards.length > 0 && !showAnswer && (answerMode === 'dictation' || !asksForFront)) {
       // Small delay to ensure the card is displayed
       const timer = setTimeout(() => {
-        speakFrench();
+        speakFront();
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [currentIndex, cards, showAnswer]);
+  }, [currentIndex, cards, showAnswer, answerMode]);
 
   const startDynamicDueCardChecking = () => {
     // Check for newly due cards every 30 seconds during active session
@@ -73,10 +240,10 @@ const Review = () => {
       
       if (sessionType === 'due') {
         // In due-only mode, check for newly due cards
-        allCurrentCards = await getDueCards();
+        allCurrentCards = await getDueCards(sessionFilter);
       } else {
         // In all-cards mode, get all cards and prioritize
-        const allCards = await getAllCards();
+        const allCards = await getFilteredFlashcards(sessionFilter);
         allCurrentCards = prioritizeCards(allCards);
       }
 
@@ -124,13 +291,23 @@ const Review = () => {
     }
   };
 
-  const loadDueCards = async () => {
+  const refreshDailyLimits = async () => {
     try {
-      const dueCards = await getDueCards();
+      setDailyLimits(await getDailyLimits());
+    } catch (error) {
+      console.error('Failed to load daily limits:', error);
+    }
+  };
+
+  const loadDueCards = async (filter = sessionFilter) => {
+    try {
+      await refreshDailyLimits();
+      const dueCards = await getDueCards(filter);
       console.log('Loading due cards:', dueCards.length);
       setCards(dueCards);
       setCurrentIndex(0);
       setShowAnswer(false);
+      setUndoStack([]);
       setSessionType('due');
     } catch (error) {
       console.error('Failed to load due cards:', error);
@@ -139,9 +316,9 @@ const Review = () => {
     }
   };
 
-  const loadAllCards = async () => {
+  const loadAllCards = async (filter = sessionFilter) => {
     try {
-      const allCards = await getAllCards();
+      const allCards = await getFilteredFlashcards(filter);
       // Prioritize due cards even in "all cards" mode
       const prioritizedCards = prioritizeCards(allCards);
       console.log('Loading all cards with prioritization:', {
@@ -152,6 +329,7 @@ const Review = () => {
       setCards(prioritizedCards);
       setCurrentIndex(0);
       setShowAnswer(false);
+      setUndoStack([]);
       setSessionType('all');
     } catch (error) {
       console.error('Failed to load all cards:', error);
@@ -159,8 +337,10 @@ const Review = () => {
   };
 
   // Enhanced prioritization with strict due card priority
-  const prioritizeCards = (allCards: Flashcard[]) => {
+  const prioritizeCards = (sessionCards: Flashcard[]) => {
     const now = new Date();
+    // Suspended and buried cards, and directions the deck doesn't study, are never shown, not even in "all cards" mode
+    const allCards = sessionCards.filter(card => isCardActive(card, now, getCardDeck(card)));
     
     // Separate cards into categories with detailed logging
     const dueCards = allCards.filter(card => {
@@ -247,64 +427,305 @@ const Review = () => {
     }
   };
 
-  const handleAnswer = async (difficulty: 'again' | 'hard' | 'good' | 'easy') => {
-    if (cards.length === 0) return;
+  const handleAnswer = async (difficulty: ReviewDifficulty) => {
+    if (cards.length === 0 || isAnsweringRef.current) return;
 
     const currentCard = cards[currentIndex];
-    
+    isAnsweringRef.current = true;
     try {
-      await updateCardReview(currentCard.id, difficulty);
-      
-      // Remove the current card and get remaining cards
-      const remainingCards = cards.filter((_, index) => index !== currentIndex);
+      const result = await updateCardReview(currentCard.id, difficulty, Date.now() - cardShownAtRef.current);
+      if (result) {
+        setUndoStack(stack => [...stack, {
+          card: currentCard,
+          logId: result.log.id,
+          buriedSiblings: result.buriedSiblings,
+          previousStudyDate: result.previousStudyDate,
+        }]);
+        if (result.isLeech) {
+          toast.warning(t('review.leech.title'), {
+            description: t(result.card.suspended ? 'review.leech.suspended' : 'review.leech.tagged', {
+              front: result.card.front,
+              lapses: result.card.lapses,
+            }),
+            duration: 6000,
+          });
+        }
+      }
+      cardShownAtRef.current = Date.now();
+      await refreshDailyLimits();
+      await removeCurrentCard(result?.buriedSiblings.map(sibling => sibling.id));
+    } catch (error) {
+      console.error('Failed to update card review:', error);
+    } finally {
+      isAnsweringRef.current = false;
+    }
+  };
+
+  // Also removes the given cards, e.g. siblings buried by the answer
+  const removeCurrentCard = async (otherCardIds: string[] = []) => {
+    // Remove the current card and get remaining cards
+    const remainingCards = cards.filter((card, index) => index !== currentIndex && !otherCardIds.includes(card.id));
+    
+    if (remainingCards.length === 0) {
+      // All cards reviewed - stop dynamic checking
+      stopDynamicDueCardChecking();
+      await refreshStats();
+      setCards([]);
+      setCurrentIndex(0);
+    } else {
+      // Dynamically re-prioritize remaining cards to ensure due cards come first
+      const reprioritizedCards = await reprioritizeRemainingCards(remainingCards);
+      setCards(reprioritizedCards);
       
-      if (remainingCards.length === 0) {
-        // All cards reviewed - stop dynamic checking
-        stopDynamicDueCardChecking();
-        await refreshStats();
-        setCards([]);
-        setCurrentIndex(0);
+      // Adjust current index - if we were not at the last card, stay at same position
+      // If we were at the last card, move to the beginning
+      const removedBefore = cards.slice(0, currentIndex).filter(card => otherCardIds.includes(card.id)).length;
+      const newIndex = currentIndex - removedBefore >= reprioritizedCards.length ? 0 : currentIndex - removedBefore;
+      setCurrentIndex(newIndex);
+    }
+    
+    setShowAnswer(false);
+  };
+
+  // Takes the card out of rotation without answering it
+  const handleSetAside = async (action: 'suspend' | 'bury') => {
+    const currentCard = cards[currentIndex];
+    if (!currentCard) return;
+
+    try {
+      if (action === 'suspend') {
+        await setCardSuspended(currentCard.id, true);
       } else {
-        // Dynamically re-prioritize remaining cards to ensure due cards come first
-        const reprioritizedCards = await reprioritizeRemainingCards(remainingCards);
-        setCards(reprioritizedCards);
-        
-        // Adjust current index - if we were not at the last card, stay at same position
-        // If we were at the last card, move to the beginning
-        const newIndex = currentIndex >= reprioritizedCards.length ? 0 : currentIndex;
-        setCurrentIndex(newIndex);
+        await buryCard(currentCard.id);
       }
-      
+      await removeCurrentCard();
+      await refreshStats();
+    } catch (error) {
+      console.error(`Failed to ${action} card:`, error);
+    }
+  };
+
+  // Puts the last answered card back in its previous state, at the front of the queue
+  const handleUndo = async () => {
+    const lastAnswer = undoStack[undoStack.length - 1];
+    if (!lastAnswer || isUndoing) return;
+
+    setIsUndoing(true);
+    try {
+      await undoCardReview(lastAnswer.card, lastAnswer.logId, lastAnswer.buriedSiblings, lastAnswer.previousStudyDate);
+      setTypedAnswer('');
+      setAnswerDiff(null);
+      setUndoStack(stack => stack.slice(0, -1));
+      // The card may have come back into the queue already, e.g. a learning step fell due.
+      // Due siblings it buried go back to the end of the queue.
+      const now = new Date();
+      const dueSiblings = lastAnswer.buriedSiblings.filter(sibling => new Date(sibling.nextReviewDate) <= now);
+      const restoredIds = new Set([lastAnswer.card.id, ...dueSiblings.map(sibling => sibling.id)]);
+      setCards([
+        lastAnswer.card,
+        ...cards.filter(card => !restoredIds.has(card.id)),
+        ...dueSiblings,
+      ]);
+      setCurrentIndex(0);
       setShowAnswer(false);
+      await refreshDailyLimits();
+      await refreshStats();
     } catch (error) {
-      console.error('Failed to update card review:', error);
+      console.error('Failed to undo card review:', error);
+    } finally {
+      setIsUndoing(false);
     }
   };
+  undoRef.current = handleUndo;
 
-  const speakFrench = () => {
-    if (cards[currentIndex]) {
-      // Use the selected practice language instead of hardcoding 'fr'
-      speak(cards[currentIndex].french, practiceLanguage);
+  const renderUndoButton = () => undoStack.length > 0 && (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleUndo}
+      disabled={isUndoing}
+      title={t('review.undo.shortcut')}
+    >
+      <Undo2 className="mr-2" size={16} />
+      {t('review.undo')} ({undoStack.length})
+    </Button>
+  );
+
+  const getCardDeck = (card: Flashcard) => decks.find(deck => deck.id === card.deckId);
+
+  const speakFront = (options?: SpeakOptions) => {
+    const card = cards[currentIndex];
+    if (card) {
+      // Cards are read in their deck's language, the practice language is only a fallback
+      speakCard(card, getCardDeck(card)?.sourceLanguage || practiceLanguage, options);
     }
   };
 
-  const resetSession = () => {
+  const resetSession = (filter = sessionFilter) => {
     stopDynamicDueCardChecking();
     if (sessionType === 'due') {
-      loadDueCards();
+      loadDueCards(filter);
     } else {
-      loadAllCards();
+      loadAllCards(filter);
     }
   };
 
+  const handleDeckChange = (value: string) => {
+    setDeckId(value);
+    resetSession({ ...sessionFilter, deckId: value === 'all' ? undefined : value });
+  };
+
+  const toggleTag = (tag: string) => {
+    const newTags = selectedTags.includes(tag)
+      ? selectedTags.filter(selected => selected !== tag)
+      : [...selectedTags, tag];
+    setSelectedTags(newTags);
+    resetSession({ ...sessionFilter, tags: newTags });
+  };
+
+  const renderSessionFilters = () => (
+    <div className="flex flex-col items-center gap-2">
+      {renderAnswerModeSelect()}
+      {renderDeckSelect()}
+      {tags.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1">
+          {tags.map(tag => (
+            <Badge
+              key={tag}
+              variant={selectedTags.includes(tag) ? 'default' : 'outline'}
+              onClick={() => toggleTag(tag)}
+              className={`cursor-pointer ${selectedTags.includes(tag) ? '' : 'dark:text-gray-300'}`}
+            >
+              #{tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderAnswerModeSelect = () => (
+    <div className="inline-flex flex-wrap justify-center rounded-md border p-1 dark:border-gray-600" role="group" aria-label={t('review.mode.label')}>
+      {ANSWER_MODES.map(({ mode, icon: Icon }) => (
+        <Button
+          key={mode}
+          variant={answerMode === mode ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => handleAnswerModeChange(mode)}
+          title={t(`review.mode.${mode}.description`)}
+          aria-pressed={answerMode === mode}
+        >
+          <Icon className="mr-2" size={14} />
+          {t(`review.mode.${mode}`)}
+        </Button>
+      ))}
+    </div>
+  );
+
+  const renderDeckSelect = () => decks.length > 1 && (
+    <div className="flex justify-center">
+      <Select value={deckId} onValueChange={handleDeckChange}>
+        <SelectTrigger className="w-56 dark:bg-gray-700 dark:border-gray-600 dark:text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">{t('deck.all')}</SelectItem>
+          {decks.map(deck => (
+            <SelectItem key={deck.id} value={deck.id}>
+              <span className="inline-flex items-center gap-2">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: deck.color }} />
+                {deck.name}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
   const handleShowAnswer = () => {
     setShowAnswer(true);
-    // Auto-play French audio when answer is shown
+    // Auto-play the front again when the answer is shown
     setTimeout(() => {
-      speakFrench();
+      speakFront();
     }, 200);
   };
 
+  const handleAnswerModeChange = (mode: AnswerMode) => {
+    setAnswerMode(mode);
+    setShowAnswer(false);
+    setAnswerDiff(null);
+    setTranscript(null);
+    localStorage.setItem(ANSWER_MODE_KEY, mode);
+  };
+
+  const handleCheckAnswer = () => {
+    const card = cards[currentIndex];
+    if (!card) return;
+    // Dictation asks for the word that was read out, whichever direction the card is
+    setAnswerDiff(diffAnswer(typedAnswer, answerMode === 'dictation' ? getSpokenText(card) : getAnswerText(card)));
+    handleShowAnswer();
+  };
+
+  const handleListen = async () => {
+    const card = cards[currentIndex];
+    if (!card || isListening) return;
+
+    listeningCardIdRef.current = card.id;
+    setIsListening(true);
+    try {
+      const result = await getSpeechRecognitionEngine().listen(getCardDeck(card)?.sourceLanguage || practiceLanguage);
+      // Ignore results for a card that is no longer shown
+      if (listeningCardIdRef.current !== card.id) return;
+      const score = scorePronunciation(result, getSpokenText(card));
+      setTranscript(score.transcript);
+      setAnswerDiff(score);
+      handleShowAnswer();
+    } catch (error) {
+      if (listeningCardIdRef.current !== card.id) return;
+      console.error('Speech recognition failed:', error);
+      const reason = error instanceof Error && ['not-supported', 'not-allowed', 'no-speech'].includes(error.message)
+        ? error.message
+        : 'failed';
+      toast.error(t(`review.speaking.error.${reason}`));
+    } finally {
+      listeningCardIdRef.current = null;
+      setIsListening(false);
+    }
+  };
+
+  // Lets the learner say the word again, e.g. after being misheard
+  const handleRetrySpeaking = () => {
+    setShowAnswer(false);
+    setAnswerDiff(null);
+    setTranscript(null);
+  };
+
+  // Multiple choice is graded automatically: the right answer is "good", anything else "again"
+  const choiceGrade: ReviewDifficulty | null = selectedChoice === null || !cards[currentIndex]
+    ? null
+    : selectedChoice === getAnswerText(cards[currentIndex]) ? 'good' : 'again';
+  // With too few other cards to draw distractors from, cards are flipped instead
+  const isChoosing = answerMode === 'choice' && choices.length > 1;
+
+  const handleChoose = (choice: string) => {
+    if (showAnswer || isAnsweringRef.current) return;
+    setSelectedChoice(choice);
+    handleShowAnswer();
+  };
+
+  const suggestedGrade = answerDiff?.suggestedGrade || choiceGrade;
+  acceptSuggestionRef.current = showAnswer && suggestedGrade ? () => handleAnswer(suggestedGrade) : null;
+  chooseRef.current = isChoosing && !showAnswer
+    ? (index) => choices[index] !== undefined && handleChoose(choices[index])
+    : null;
+
+  // Rings the answer button matching the grade suggested for a typed answer
+  const getSuggestionClass = (difficulty: ReviewDifficulty) =>
+    showAnswer && answerDiff?.suggestedGrade === difficulty
+      ? ' ring-2 ring-blue-500 ring-offset-2 dark:ring-offset-gray-800'
+      : '';
+
   const getCardStateInfo = (card: Flashcard) => {
     const isLearning = card.cardState === 'new' || card.cardState === 'learning';
     const isRelearning = card.cardState === 'relearning';
@@ -331,13 +752,18 @@ const Review = () => {
         break;
     }
 
-    const intervalText = isLearning || isRelearning 
-      ? `${card.interval}m` 
-      : `${card.interval}d`;
+    const intervalText = card.cardState === 'new'
+      ? '—'
+      : formatInterval(getIntervalMinutes(card), t);
 
     return { stateText, stateColor, intervalText, isLearning, isRelearning };
   };
 
+  const getPreviewText = (difficulty: ReviewDifficulty) => {
+    const preview = previews?.[difficulty];
+    return preview ? formatInterval(getIntervalMinutes(preview), t) : '';
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4 pt-24 md:pt-28 pb-8">
@@ -362,13 +788,20 @@ const Review = () => {
                 ? t('review.no.due')
                 : t('review.no.collection')}
             </p>
+            {sessionType === 'due' && dailyLimits && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {dailyLimits.newCardsRemaining} {t('review.new.remaining')}
+              </p>
+            )}
             <div className="flex flex-col gap-3 items-center">
-              <Button onClick={resetSession} className="mt-4">
+              {renderSessionFilters()}
+              {renderUndoButton()}
+              <Button onClick={() => resetSession()} className="mt-4">
                 <RotateCcw className="mr-2" size={16} />
                 {t('review.check.again')}
               </Button>
               {sessionType === 'due' && (
-                <Button onClick={loadAllCards} variant="outline">
+                <Button onClick={() => loadAllCards()} variant="outline">
                   {t('review.all.cards')}
                 </Button>
               )}
@@ -381,6 +814,21 @@ const Review = () => {
 
   const currentCard = cards[currentIndex];
   const { stateText, stateColor, intervalText, isLearning, isRelearning } = getCardStateInfo(currentCard);
+  // Reverse cards show the translation and ask for the word; dictation asks for the word it reads out
+  // and only shows it, with its translation, once answered; speaking asks for the word out loud.
+  // Cloze cards show their sentence with a blank, and its translation or notes once answered.
+  const isDictation = answerMode === 'dictation';
+  // Without speech recognition in the browser, speaking falls back to flipping
+  const isSpeaking = answerMode === 'speaking' && getSpeechRecognitionEngine().isSupported();
+  const isCloze = isClozeCard(currentCard);
+  const isReverse = currentCard.direction === 'reverse' || isDictation || isSpeaking || isCloze;
+  const promptText = isReverse ? currentCard.back : currentCard.front;
+  const answerText = isCloze ? getAnswerText(currentCard) : isReverse ? currentCard.front : currentCard.back;
+  const currentDeck = getCardDeck(currentCard);
+  const sourceLanguage = currentDeck?.sourceLanguage || practiceLanguage;
+  const targetLanguage = currentDeck?.targetLanguage || 'en';
+  const promptLanguage = isReverse ? targetLanguage : sourceLanguage;
+  const answerLanguage = isReverse ? sourceLanguage : targetLanguage;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 p-4 pt-24 md:pt-28 pb-8">
@@ -396,6 +844,13 @@ const Review = () => {
           <p className="text-gray-600 dark:text-gray-400">
             {t('review.subtitle')} {currentIndex + 1} {t('review.subtitle.of')} {cards.length}
           </p>
+          {sessionType === 'due' && dailyLimits && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {dailyLimits.newCardsRemaining} {t('review.new.remaining')} · {dailyLimits.reviewsRemaining} {t('review.reviews.remaining')}
+            </p>
+          )}
+          {renderSessionFilters()}
+          {renderUndoButton()}
         </div>
 
         {/* Progress Bar */}
@@ -413,47 +868,103 @@ const Review = () => {
             <span className="font-medium">{stateText}</span>
           </div>
           <div className="text-gray-500 dark:text-gray-400">
-            <span>Interval: {intervalText}</span>
+            <span>{t('review.interval')}: {intervalText}</span>
           </div>
           {currentCard.lapses > 0 && (
             <div className="text-red-500 dark:text-red-400">
-              <span>Lapses: {currentCard.lapses}</span>
+              <span>{t('review.lapses')}: {currentCard.lapses}</span>
             </div>
           )}
         </div>
+        <div className="flex items-center justify-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => handleSetAside('bury')} title={t('review.bury.description')}>
+            <EyeOff className="mr-2" size={14} />
+            {t('review.bury')}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => handleSetAside('suspend')} title={t('review.suspend.description')}>
+            <Pause className="mr-2" size={14} />
+            {t('review.suspend')}
+          </Button>
+        </div>
 
         {/* Flashcard */}
         <Card className="min-h-[300px] dark:bg-gray-800 dark:border-gray-700">
           <CardHeader>
             <CardTitle className="text-center dark:text-white">
-              {showAnswer ? t('review.card.translation') : t('review.card.french')}
+              {showAnswer
+                ? t('review.card.translation')
+                : isDictation
+                  ? t('review.dictation.title', { language: t(`language.${sourceLanguage}`) })
+                  : isSpeaking
+                    ? t('review.speaking.title', { language: t(`language.${sourceLanguage}`) })
+                    : isCloze
+                      ? t('review.cloze.title')
+                      : t('review.card.front', { language: t(`language.${promptLanguage}`) })}
             </CardTitle>
           </CardHeader>
           <CardContent className="flex flex-col items-center justify-center space-y-6">
             <div className="text-center">
-              <div className="text-3xl font-bold mb-4 dark:text-white">
-                {showAnswer ? currentCard.english : currentCard.french}
-              </div>
-              {!showAnswer && (
+              {!showAnswer && isDictation ? (
+                <div className="flex justify-center gap-2 mb-4">
+                  <Button variant="outline" size="lg" onClick={() => speakFront()}>
+                    <Volume2 className="mr-2" size={20} />
+                    {t('review.listen')}
+                  </Button>
+                  <Button variant="outline" size="lg" onClick={() => speakFront({ rate: SLOW_RATE })}>
+                    <Snail className="mr-2" size={20} />
+                    {t('review.dictation.slow')}
+                  </Button>
+                </div>
+              ) : (
+                <div className="text-3xl font-bold mb-4 dark:text-white">
+                  {isCloze ? (
+                    <ClozeText text={currentCard.front} clozeNumber={currentCard.clozeNumber!} revealed={showAnswer} />
+                  ) : showAnswer ? answerText : promptText}
+                </div>
+              )}
+              {!showAnswer && !isReverse && (
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={speakFrench}
+                  onClick={() => speakFront()}
                   className="mb-4"
                 >
                   <Volume2 className="mr-2" size={16} />
                   {t('review.listen')}
                 </Button>
               )}
+              {showAnswer && answerDiff && (
+                <div className="space-y-2 mb-4">
+                  {transcript !== null && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {t('review.speaking.heard', { transcript, score: Math.round(answerDiff.similarity * 100) })}
+                    </p>
+                  )}
+                  {answerDiff.isExact && (
+                    <p className="font-medium text-green-600 dark:text-green-400">{t('review.type.correct')}</p>
+                  )}
+                  <AnswerDiffView diff={answerDiff} />
+                  {transcript !== null && (
+                    <Button variant="ghost" size="sm" onClick={handleRetrySpeaking}>
+                      <Mic className="mr-2" size={14} />
+                      {t('review.speaking.retry')}
+                    </Button>
+                  )}
+                </div>
+              )}
               {showAnswer && (
                 <div className="space-y-3">
-                  <div className="text-xl text-gray-600 dark:text-gray-400 mb-4">
-                    {currentCard.french}
-                  </div>
+                  {promptText && (
+                    <div className="text-xl text-gray-600 dark:text-gray-400 mb-4">
+                      {promptText}
+                    </div>
+                  )}
+                  <CardImage image={currentCard.imageId} className="max-h-48 mx-auto" />
+                  <NoteDetailsView details={currentCard} />
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={speakFrench}
+                    onClick={() => speakFront()}
                     className="mb-4"
                   >
                     <Volume2 className="mr-2" size={16} />
@@ -463,7 +974,89 @@ const Review = () => {
               )}
             </div>
 
-            {!showAnswer ? (
+            {isChoosing && (
+              <div className="w-full max-w-md space-y-2">
+                {choices.map((choice, index) => {
+                  const isCorrect = showAnswer && choice === answerText;
+                  const isWrong = showAnswer && choice === selectedChoice && choice !== answerText;
+                  return (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      onClick={() => handleChoose(choice)}
+                      disabled={showAnswer}
+                      className={`w-full h-auto justify-start py-3 text-left whitespace-normal disabled:opacity-100 ${
+                        isCorrect ? 'border-green-500 bg-green-50 text-green-700 dark:bg-green-900 dark:text-green-300' : ''
+                      } ${isWrong ? 'border-red-500 bg-red-50 text-red-700 dark:bg-red-900 dark:text-red-300' : ''} ${
+                        showAnswer && !isCorrect && !isWrong ? 'opacity-60 disabled:opacity-60' : ''
+                      }`}
+                    >
+                      <span className="mr-3 text-xs text-gray-400">{index + 1}</span>
+                      {choice}
+                    </Button>
+                  );
+                })}
+                {!showAnswer && (
+                  <p className="text-center text-xs text-gray-500 dark:text-gray-400">
+                    {t('review.choice.shortcut', { count: choices.length })}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {isChoosing ? (
+              showAnswer && choiceGrade && (
+                <div className="w-full space-y-3 text-center">
+                  <p className={`font-medium ${choiceGrade === 'good' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {choiceGrade === 'good' ? t('review.choice.correct') : t('review.choice.incorrect', { answer: answerText })}
+                  </p>
+                  <Button onClick={() => handleAnswer(choiceGrade)} size="lg" className="w-full max-w-xs">
+                    {t('review.choice.continue')}
+                    <span className="ml-2 text-xs opacity-75">{getPreviewText(choiceGrade)}</span>
+                  </Button>
+                </div>
+              )
+            ) : !showAnswer && isSpeaking ? (
+              <div className="flex flex-col items-center gap-2">
+                {isListening ? (
+                  <Button size="lg" variant="destructive" onClick={() => getSpeechRecognitionEngine().stop()}>
+                    <Square className="mr-2" size={16} />
+                    {t('review.speaking.listening')}
+                  </Button>
+                ) : (
+                  <Button size="lg" onClick={handleListen}>
+                    <Mic className="mr-2" size={16} />
+                    {t('review.speaking.start')}
+                  </Button>
+                )}
+                <Button variant="link" size="sm" onClick={handleShowAnswer} disabled={isListening}>
+                  {t('review.show.answer')}
+                </Button>
+              </div>
+            ) : !showAnswer && (answerMode === 'type' || isDictation) ? (
+              <form
+                className="flex w-full max-w-md gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleCheckAnswer();
+                }}
+              >
+                <Input
+                  value={typedAnswer}
+                  onChange={(e) => setTypedAnswer(e.target.value)}
+                  placeholder={t(isDictation ? 'review.dictation.placeholder' : 'review.type.placeholder', {
+                    language: t(`language.${answerLanguage}`),
+                  })}
+                  lang={answerLanguage}
+                  autoFocus
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  className="dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                />
+                <Button type="submit">{t('review.type.check')}</Button>
+              </form>
+            ) : !showAnswer ? (
               <Button 
                 onClick={handleShowAnswer}
                 size="lg"
@@ -474,51 +1067,53 @@ const Review = () => {
             ) : (
               <div className="w-full space-y-3">
                 <p className="text-center text-sm text-gray-600 dark:text-gray-400 mb-4">
-                  {t('review.how.well')}
+                  {answerDiff
+                    ? t('review.type.suggested', { grade: t(`review.answer.${answerDiff.suggestedGrade}`) })
+                    : t('review.how.well')}
                 </p>
                 <div className="grid grid-cols-2 gap-3">
                   <Button
                     variant="destructive"
                     onClick={() => handleAnswer('again')}
-                    className="w-full"
+                    className={`w-full${getSuggestionClass('again')}`}
                   >
                     {t('review.answer.again')}
                     <br />
                     <span className="text-xs opacity-75">
-                      {isLearning || isRelearning ? '1m' : 'Relearn'}
+                      {getPreviewText('again')}
                     </span>
                   </Button>
                   <Button
                     variant="outline"
                     onClick={() => handleAnswer('hard')}
-                    className="w-full border-orange-300 text-orange-600 hover:bg-orange-50 dark:border-orange-600 dark:text-orange-400 dark:hover:bg-orange-900"
+                    className={`w-full border-orange-300 text-orange-600 hover:bg-orange-50 dark:border-orange-600 dark:text-orange-400 dark:hover:bg-orange-900${getSuggestionClass('hard')}`}
                   >
                     {t('review.answer.hard')}
                     <br />
                     <span className="text-xs opacity-75">
-                      {isLearning || isRelearning ? `${intervalText}` : `${Math.round(currentCard.interval * 1.2)}d`}
+                      {getPreviewText('hard')}
                     </span>
                   </Button>
                   <Button
                     variant="outline"
                     onClick={() => handleAnswer('good')}
-                    className="w-full border-blue-300 text-blue-600 hover:bg-blue-50 dark:border-blue-600 dark:text-blue-400 dark:hover:bg-blue-900"
+                    className={`w-full border-blue-300 text-blue-600 hover:bg-blue-50 dark:border-blue-600 dark:text-blue-400 dark:hover:bg-blue-900${getSuggestionClass('good')}`}
                   >
                     {t('review.answer.good')}
                     <br />
                     <span className="text-xs opacity-75">
-                      {isLearning || isRelearning ? 'Next step' : `${Math.round(currentCard.interval * currentCard.ease)}d`}
+                      {getPreviewText('good')}
                     </span>
                   </Button>
                   <Button
                     variant="default"
                     onClick={() => handleAnswer('easy')}
-                    className="w-full bg-green-600 hover:bg-green-700"
+                    className={`w-full bg-green-600 hover:bg-green-700${getSuggestionClass('easy')}`}
                   >
                     {t('review.answer.easy')}
                     <br />
                     <span className="text-xs opacity-75">
-                      {isLearning || isRelearning ? '4d' : `${Math.round(currentCard.interval * currentCard.ease * 1.3)}d`}
+                      {getPreviewText('easy')}
                     </span>
                   </Button>
                 </div>
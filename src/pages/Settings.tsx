@@ -14,6 +14,8 @@ import { exportData, importData, clearAllData } from '@/lib/database';
 import { tts, SupportedLanguage, VoiceOption } from '@/lib/speech';
 import { useVoiceSettings } from '@/contexts/VoiceSettingsContext';
 import BulkImport from '@/components/BulkImport';
+import AnkiImport from '@/components/AnkiImport';
+import LearningConfigEditor from '@/components/LearningConfigEditor';
 import ConfirmDialog from '@/components/ConfirmDialog';
 import { useConfirmDialog } from '@/hooks/useConfirmDialog';
 
@@ -293,6 +295,19 @@ const Settings = () => {
             </CardContent>
           </Card>
 
+          {/* Study Schedule */}
+          <Card className="dark:bg-gray-800 dark:border-gray-700">
+            <CardHeader>
+              <CardTitle className="dark:text-white">{t('settings.study.title')}</CardTitle>
+              <CardDescription className="dark:text-gray-400">
+                {t('settings.study.subtitle')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LearningConfigEditor onSaved={refreshStats} />
+            </CardContent>
+          </Card>
+
           {/* Data Management */}
           <Card className="dark:bg-gray-800 dark:border-gray-700">
             <CardHeader>
@@ -348,6 +363,15 @@ const Settings = () => {
                   <p className="text-sm text-blue-600 dark:text-blue-400">{t('settings.import.loading')}</p>
                 )}
               </div>
+
+              {/* Anki Import */}
+              <div className="space-y-2">
+                <Label className="dark:text-white">{t('anki.title')}</Label>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {t('anki.description')}
+                </p>
+                <AnkiImport onImportComplete={refreshStats} />
+              </div>
             </CardContent>
           </Card>
 